@@ -0,0 +1,35 @@
+"""
+Example plugin tool: basic statistics for a text file.
+
+Arguments arrive as JSON in the file named by MCP_INPUTS_FILE; the result is
+written as JSON to the file named by MCP_RESULT_FILE, where the server checks
+it against the manifest's outputSchema.
+"""
+
+import json
+import os
+
+
+def main():
+    with open(os.environ['MCP_INPUTS_FILE'], 'r') as f:
+        inputs = json.load(f)
+
+    file_path = inputs['file_path']
+    lines = 0
+    longest = 0
+    with open(file_path, 'r', errors='replace') as f:
+        for line in f:
+            lines += 1
+            longest = max(longest, len(line.rstrip('\n')))
+
+    with open(os.environ['MCP_RESULT_FILE'], 'w') as f:
+        json.dump({
+            'file': file_path,
+            'size_bytes': os.path.getsize(file_path),
+            'lines': lines,
+            'longest_line': longest,
+        }, f)
+
+
+if __name__ == '__main__':
+    main()
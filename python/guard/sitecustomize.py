@@ -0,0 +1,125 @@
+"""
+Network Egress Guard
+
+Loaded automatically (via PYTHONPATH) into executed Python code. Enforces the
+network policy in MCP_NETWORK_POLICY so that a denied connection fails
+immediately with a clear PermissionError instead of hanging until timeout.
+
+Policy JSON: {"mode": "none" | "loopback-only" | "allowlist", "allow": ["host:port", ...]}
+
+Checks run in an audit hook (PEP 578), which the interpreter calls from the C
+socket functions themselves, so _socket.socket, socket.SocketType and
+subclasses are covered, and which cannot be removed once added. Processes
+started from Python would not carry the guard, so they are denied unless a
+network namespace (MCP_NETWORK_NAMESPACE) already cuts off the network.
+This is best effort: native code (ctypes, C extensions) can still open
+sockets, which only mode 'none' with a namespace prevents.
+"""
+
+import ipaddress
+import json
+import os
+import socket
+import sys
+
+# Audit events that start another program, which would run without the guard
+PROCESS_EVENTS = {'os.exec', 'os.posix_spawn', 'os.spawn', 'os.system', 'subprocess.Popen', 'pty.spawn'}
+NAME_EVENTS = {'socket.getaddrinfo', 'socket.gethostbyname', 'socket.gethostbyaddr'}
+ADDRESS_EVENTS = {'socket.connect', 'socket.sendto', 'socket.sendmsg'}
+
+
+def _load_policy():
+    try:
+        return json.loads(os.environ.get('MCP_NETWORK_POLICY', ''))
+    except ValueError:
+        return None
+
+
+def _parse_allow(entries):
+    allowed = set()
+    for entry in entries or []:
+        host, _, port = entry.rpartition(':')
+        allowed.add((host.strip('[]').lower(), port))
+    return allowed
+
+
+def _is_loopback(host):
+    if host == 'localhost':
+        return True
+    try:
+        return ipaddress.ip_address(host).is_loopback
+    except ValueError:
+        return False
+
+
+def _install(policy, isolated):
+    mode = policy.get('mode', 'none')
+    allowed = _parse_allow(policy.get('allow'))
+    allowed_hosts = {host for host, _ in allowed}
+
+    def name_allowed(host):
+        """Whether a host name may be resolved"""
+        if mode == 'loopback-only':
+            return _is_loopback(host)
+        return mode == 'allowlist' and host in allowed_hosts
+
+    def address_allowed(host, port):
+        """Whether a connection to host:port may be opened"""
+        if mode == 'loopback-only':
+            return _is_loopback(host)
+        if mode == 'allowlist':
+            return (host, str(port)) in allowed or (host, '*') in allowed
+        return False
+
+    def deny(target):
+        raise PermissionError(
+            f'Network access denied by policy (mode: {mode}): connection to {target} is not allowed'
+        )
+
+    def host_name(host):
+        return (host.decode() if isinstance(host, bytes) else str(host)).lower()
+
+    def check_address(sock, address):
+        if sock.family == getattr(socket, 'AF_UNIX', None):
+            deny(str(address))
+        if isinstance(address, tuple) and len(address) >= 2:
+            if not address_allowed(host_name(address[0]), address[1]):
+                deny(f'{address[0]}:{address[1]}')
+
+    def audit(event, args):
+        if event in ADDRESS_EVENTS:
+            sock, address = args[0], args[1]
+            # sendmsg on a connected socket has no address; its connect was checked
+            if address is not None:
+                check_address(sock, address)
+        elif event in NAME_EVENTS:
+            if args[0] is not None and not name_allowed(host_name(args[0])):
+                port = f':{args[1]}' if event == 'socket.getaddrinfo' else ''
+                deny(f'{host_name(args[0])}{port}')
+        elif event in PROCESS_EVENTS and not isolated:
+            raise PermissionError(
+                f'Starting processes is denied by the network policy (mode: {mode}): '
+                'they would run without its checks'
+            )
+
+    original_getaddrinfo = socket.getaddrinfo
+
+    def guarded_getaddrinfo(host, port, *args, **kwargs):
+        results = original_getaddrinfo(host, port, *args, **kwargs)
+        if host is None:
+            return results
+        # Addresses of allowed names inherit the name's allowed ports
+        name = host_name(host)
+        for *_, sockaddr in results:
+            for allowed_host, allowed_port in list(allowed):
+                if allowed_host == name:
+                    allowed.add((str(sockaddr[0]).lower(), allowed_port))
+        return results
+
+    socket.getaddrinfo = guarded_getaddrinfo
+    sys.addaudithook(audit)
+
+
+_policy = _load_policy()
+if _policy is not None:
+    _install(_policy, os.environ.get('MCP_NETWORK_NAMESPACE') == '1')
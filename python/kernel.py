@@ -0,0 +1,193 @@
+#!/usr/bin/env python3
+"""
+Python Session Kernel
+
+Long-lived interpreter behind the create_session / execute_in_session tools.
+Code runs in one namespace, so variables and imports persist between calls.
+
+Reads one JSON request per line on stdin: {"code": str, "timeout": seconds},
+or {"cancel": true} to interrupt the running cell. Replies with one line per
+cell on stdout, prefixed with the token from MCP_KERNEL_TOKEN so output
+written straight to the file descriptor by user code cannot pass for a reply:
+{"success": bool, "stdout": str, "stderr": str, "error": str?,
+ "timedOut": bool?, "cancelled": bool?}
+"""
+
+import _thread
+import ast
+import collections
+import io
+import json
+import os
+import queue
+import signal
+import sys
+import threading
+import traceback
+
+TOKEN = os.environ.get('MCP_KERNEL_TOKEN', '')
+MAX_OUTPUT = int(os.environ.get('MCP_KERNEL_MAX_OUTPUT', '1000000'))
+FILENAME = '<session>'
+
+# Whether a cell is running, so a late cancel does not interrupt the kernel itself
+running = False
+running_lock = threading.Lock()
+
+
+class CellTimeout(BaseException):
+    """Raised in the running cell when its timeout expires; a BaseException
+    so `except Exception` in user code does not swallow it"""
+
+
+class CellCancelled(BaseException):
+    """Raised in the running cell when the client cancels it"""
+
+
+class CappedOutput(io.TextIOBase):
+    """Text stream keeping the head and tail of what is written, MAX_OUTPUT characters in all"""
+
+    def __init__(self):
+        self.head = []
+        self.head_size = 0
+        self.tail = collections.deque()
+        self.tail_size = 0
+        self.elided = 0
+        self.tail_limit = MAX_OUTPUT - MAX_OUTPUT // 2
+
+    def writable(self):
+        return True
+
+    def write(self, text):
+        written = len(text)
+        room = MAX_OUTPUT // 2 - self.head_size
+        if room > 0:
+            self.head.append(text[:room])
+            self.head_size += len(self.head[-1])
+            text = text[room:]
+        if text:
+            self.tail.append(text)
+            self.tail_size += len(text)
+            while self.tail_size - len(self.tail[0]) >= self.tail_limit:
+                dropped = self.tail.popleft()
+                self.tail_size -= len(dropped)
+                self.elided += len(dropped)
+        return written
+
+    def getvalue(self):
+        head = ''.join(self.head)
+        tail = ''.join(self.tail)
+        elided = self.elided + max(len(tail) - self.tail_limit, 0)
+        if not elided:
+            return head + tail
+        separator = '' if head.endswith('\n') else '\n'
+        return f'{head}{separator}[... {elided} characters elided ...]\n{tail[-self.tail_limit:]}'
+
+
+def on_timeout(_signum, _frame):
+    raise CellTimeout()
+
+
+def on_cancel(_signum, _frame):
+    raise CellCancelled()
+
+
+def set_running(value):
+    global running
+    with running_lock:
+        running = value
+
+
+def run_cell(code, namespace):
+    """Run code like a REPL cell: the value of a trailing expression is printed"""
+    tree = ast.parse(code, FILENAME, 'exec')
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        last = ast.Expression(tree.body.pop().value)
+
+    exec(compile(tree, FILENAME, 'exec'), namespace)
+    if last is not None:
+        value = eval(compile(last, FILENAME, 'eval'), namespace)
+        if value is not None:
+            namespace['_'] = value
+            print(repr(value))
+
+
+def execute(request, namespace):
+    stdout, stderr = CappedOutput(), CappedOutput()
+    reply = {'success': True}
+
+    sys.stdout, sys.stderr = stdout, stderr
+    signal.setitimer(signal.ITIMER_REAL, max(float(request.get('timeout', 30)), 0.001))
+    try:
+        set_running(True)
+        run_cell(request['code'], namespace)
+        set_running(False)
+    except CellTimeout:
+        reply.update(success=False, timedOut=True, error='Execution timeout exceeded')
+    except (CellCancelled, KeyboardInterrupt):
+        reply.update(success=False, cancelled=True, error='Execution cancelled')
+    except SystemExit as exc:
+        # A cell may not end the session
+        if exc.code not in (None, 0):
+            reply.update(success=False, error='SystemExit: %s' % exc.code)
+    except BaseException as exc:
+        # Leave out the kernel's own frames
+        tb = exc.__traceback__
+        while tb is not None and tb.tb_frame.f_code.co_filename != FILENAME:
+            tb = tb.tb_next
+        traceback.print_exception(type(exc), exc, tb, file=stderr)
+        reply.update(success=False, error='%s: %s' % (type(exc).__name__, exc))
+    finally:
+        set_running(False)
+        signal.setitimer(signal.ITIMER_REAL, 0)
+        sys.stdout, sys.stderr = sys.__stdout__, sys.__stderr__
+
+    reply.update(stdout=stdout.getvalue(), stderr=stderr.getvalue())
+    return reply
+
+
+def send(message):
+    sys.__stdout__.write(TOKEN + json.dumps(message) + '\n')
+    sys.__stdout__.flush()
+
+
+def read_requests(stream, requests):
+    """Queue cells for the main thread; a cancel interrupts the running cell"""
+    for line in stream:
+        if not line.strip():
+            continue
+        request = json.loads(line)
+        if request.get('cancel'):
+            with running_lock:
+                if running:
+                    _thread.interrupt_main()
+        else:
+            requests.put(request)
+    requests.put(None)
+
+
+def main():
+    signal.signal(signal.SIGALRM, on_timeout)
+    signal.signal(signal.SIGINT, on_cancel)
+    # Cells must not consume the request stream
+    stream, sys.stdin = sys.stdin, io.StringIO()
+    requests = queue.Queue()
+    threading.Thread(target=read_requests, args=(stream, requests), daemon=True).start()
+    namespace = {'__name__': '__main__'}
+
+    send({'ready': True, 'python': sys.version.split()[0]})
+    while True:
+        request = requests.get()
+        if request is None:
+            break
+        try:
+            reply = execute(request, namespace)
+        except (CellCancelled, KeyboardInterrupt):
+            # The cancel arrived just as the cell finished
+            reply = {'success': False, 'cancelled': True, 'error': 'Execution cancelled',
+                     'stdout': '', 'stderr': ''}
+        send(reply)
+
+
+if __name__ == '__main__':
+    main()
@@ -0,0 +1,205 @@
+#!/usr/bin/env python3
+"""
+Python Policy Checker
+
+Parses submitted code with the ast module and reports policy violations
+(denied imports, builtins, calls and attributes) with line/column numbers.
+
+Reads {"code": str, "policy": {...}} as JSON on stdin and prints
+{"findings": [...]} as JSON on stdout.
+"""
+
+import ast
+import fnmatch
+import json
+import sys
+
+# Modules whose attributes are the builtins themselves; __builtins__ is set in every module
+BUILTIN_MODULES = ('builtins', '__builtin__')
+IMPLICIT_MODULES = {'__builtins__': 'builtins'}
+# Tables of loaded modules by name, which would reach any module past the call rules
+MODULE_TABLES = ('sys.modules',)
+
+
+class PolicyChecker(ast.NodeVisitor):
+    def __init__(self, policy):
+        self.allowed_imports = policy.get('allowedImports')
+        self.denied_imports = policy.get('deniedImports', [])
+        self.denied_builtins = set(policy.get('deniedBuiltins', []))
+        self.denied_calls = policy.get('deniedCalls', [])
+        self.denied_attributes = set(policy.get('deniedAttributes', []))
+        # Local name -> fully qualified dotted name it refers to
+        self.aliases = {}
+        self.findings = []
+        self.reported = set()
+
+    def report(self, node, rule, message):
+        key = (rule, getattr(node, 'lineno', 0), getattr(node, 'col_offset', 0))
+        if key in self.reported:
+            return
+        self.reported.add(key)
+        self.findings.append({
+            'rule': rule,
+            'message': message,
+            'line': getattr(node, 'lineno', 0),
+            'column': getattr(node, 'col_offset', 0) + 1,
+        })
+
+    # Imports
+
+    def check_module(self, node, module):
+        top = module.split('.')[0]
+        for denied in self.denied_imports:
+            if module == denied or module.startswith(denied + '.') or fnmatch.fnmatch(module, denied):
+                self.report(node, 'denied-import', f"Import of '{module}' is denied")
+                return
+        if self.allowed_imports is not None and top not in self.allowed_imports:
+            self.report(node, 'import-not-allowed', f"Import of '{module}' is not in the allowed imports")
+
+    def visit_Import(self, node):
+        for alias in node.names:
+            self.check_module(node, alias.name)
+            if alias.asname:
+                self.aliases[alias.asname] = alias.name
+            else:
+                top = alias.name.split('.')[0]
+                self.aliases[top] = top
+        self.generic_visit(node)
+
+    def visit_ImportFrom(self, node):
+        module = node.module or ''
+        if node.level:
+            self.report(node, 'denied-import', 'Relative imports are not allowed')
+        else:
+            self.check_module(node, module)
+        for alias in node.names:
+            qualified = f'{module}.{alias.name}' if module else alias.name
+            if alias.name == '*':
+                continue
+            if module:
+                self.check_call_name(node, qualified, rule='denied-call', verb='Import')
+            self.aliases[alias.asname or alias.name] = qualified
+        self.generic_visit(node)
+
+    # Names, attributes and calls
+
+    def qualified_name(self, node):
+        """Resolve Name/Attribute chains to a dotted name, following import aliases"""
+        if isinstance(node, ast.Name):
+            return self.aliases.get(node.id) or IMPLICIT_MODULES.get(node.id, node.id)
+        if isinstance(node, ast.Attribute):
+            base = self.qualified_name(node.value)
+            return f'{base}.{node.attr}' if base else None
+        return None
+
+    def is_module_reference(self, node):
+        """True for Name/Attribute chains rooted at an imported name"""
+        root = node
+        while isinstance(root, ast.Attribute):
+            root = root.value
+        return isinstance(root, ast.Name) and (root.id in self.aliases or root.id in IMPLICIT_MODULES)
+
+    def check_call_name(self, node, name, rule='denied-call', verb='Use of'):
+        module, _, attr = name.rpartition('.')
+        if module in BUILTIN_MODULES and attr in self.denied_builtins:
+            self.report(node, 'denied-builtin', f"{verb} builtin '{attr}' through '{module}' is denied")
+            return True
+        if name in MODULE_TABLES:
+            self.report(node, 'dynamic-attribute', f"{verb} '{name}' is not allowed: it looks modules up by name")
+            return True
+        for pattern in self.denied_calls:
+            if fnmatch.fnmatch(name, pattern):
+                self.report(node, rule, f"{verb} '{name}' is denied (matches '{pattern}')")
+                return True
+        return False
+
+    def visit_Assign(self, node):
+        # Track rebinding of modules and functions, e.g. "run = subprocess.run"
+        if self.is_module_reference(node.value):
+            name = self.qualified_name(node.value)
+            for target in node.targets:
+                if isinstance(target, ast.Name):
+                    self.aliases[target.id] = name
+        self.generic_visit(node)
+
+    def visit_Name(self, node):
+        if node.id in self.denied_builtins and node.id not in self.aliases:
+            self.report(node, 'denied-builtin', f"Use of builtin '{node.id}' is denied")
+        elif node.id in self.denied_attributes:
+            self.report(node, 'denied-attribute', f"Access to '{node.id}' is denied")
+        self.generic_visit(node)
+
+    def visit_Attribute(self, node):
+        if node.attr in self.denied_attributes:
+            self.report(node, 'denied-attribute', f"Access to attribute '{node.attr}' is denied")
+        # A module's namespace dict reaches every function in it: os.__dict__['system']
+        elif node.attr == '__dict__' and self.is_module_reference(node.value):
+            self.report(node, 'dynamic-attribute',
+                        f"Access to the namespace of module '{self.qualified_name(node.value)}' is not allowed")
+        # Any reference counts, not only direct calls: map(os.system, cmds)
+        elif self.is_module_reference(node):
+            self.check_call_name(node, self.qualified_name(node))
+        self.generic_visit(node)
+
+    def visit_Subscript(self, node):
+        # __builtins__ is a dict outside __main__: __builtins__['eval']
+        if isinstance(node.value, ast.Name) and node.value.id == '__builtins__':
+            key = node.slice
+            if isinstance(key, ast.Constant) and isinstance(key.value, str):
+                self.check_call_name(node, f'builtins.{key.value}')
+            else:
+                self.report(node, 'dynamic-attribute', 'Dynamic lookup in __builtins__ is not allowed')
+        self.generic_visit(node)
+
+    def visit_Call(self, node):
+        # Names bound by "from x import y" resolve to "x.y"
+        if isinstance(node.func, ast.Name) and node.func.id in self.aliases:
+            self.check_call_name(node, self.qualified_name(node.func), verb='Call to')
+
+        # getattr(module, "name") is resolved like module.name;
+        # a computed attribute name on an imported module cannot be checked
+        if isinstance(node.func, ast.Name) and node.func.id == 'getattr' and len(node.args) >= 2:
+            target = self.qualified_name(node.args[0])
+            attr = node.args[1]
+            if target and isinstance(node.args[0], ast.Name) and self.is_module_reference(node.args[0]):
+                if isinstance(attr, ast.Constant) and isinstance(attr.value, str):
+                    self.check_call_name(node, f'{target}.{attr.value}')
+                else:
+                    self.report(node, 'dynamic-attribute',
+                                f"Dynamic attribute lookup on module '{target}' is not allowed")
+
+        # vars(module) is its namespace dict, like module.__dict__
+        if (isinstance(node.func, ast.Name) and node.func.id == 'vars' and node.args
+                and self.is_module_reference(node.args[0])):
+            self.report(node, 'dynamic-attribute',
+                        f"vars() of module '{self.qualified_name(node.args[0])}' is not allowed")
+        self.generic_visit(node)
+
+
+def check(code, policy):
+    try:
+        tree = ast.parse(code)
+    except SyntaxError as e:
+        return [{
+            'rule': 'syntax-error',
+            'message': f'Syntax error: {e.msg}',
+            'line': e.lineno or 0,
+            'column': e.offset or 0,
+        }]
+    except (ValueError, RecursionError, MemoryError) as e:
+        return [{'rule': 'syntax-error', 'message': f'Cannot parse code: {e}', 'line': 0, 'column': 0}]
+
+    checker = PolicyChecker(policy)
+    try:
+        checker.visit(tree)
+    except RecursionError:
+        checker.findings.append({
+            'rule': 'syntax-error', 'message': 'Code is nested too deeply to check', 'line': 0, 'column': 0,
+        })
+    return checker.findings
+
+
+if __name__ == '__main__':
+    request = json.load(sys.stdin)
+    findings = check(request['code'], request.get('policy', {}))
+    print(json.dumps({'findings': findings}))
@@ -0,0 +1,57 @@
+"""
+Shared entrypoint plumbing for built-in tool scripts.
+
+Each tool module defines run(inputs) -> dict and calls main(run) when executed.
+Arguments arrive as JSON in the file named by MCP_INPUTS_FILE; the result is
+written as JSON to the file named by MCP_RESULT_FILE and reaches the client as
+structured content, so stdout is left for logs. Long-running tools may call
+report_progress; expected failures raise ToolError.
+"""
+
+import json
+import os
+import sys
+
+# Lines starting with this are progress reports, not output (see src/executor/progress.ts)
+PROGRESS_SENTINEL = '::progress::'
+
+
+class ToolError(Exception):
+    """A failure reported to the client by its message, without a traceback"""
+
+
+def load_inputs():
+    """Read the tool arguments passed by the server"""
+    inputs_file = os.environ.get('MCP_INPUTS_FILE')
+    if not inputs_file:
+        return {}
+    with open(inputs_file, 'r') as f:
+        return json.load(f)
+
+
+def write_result(result):
+    """Hand the result to the server; printed when run outside the server"""
+    result_file = os.environ.get('MCP_RESULT_FILE')
+    if not result_file:
+        print(json.dumps(result, indent=2))
+        return
+    with open(result_file, 'w') as f:
+        json.dump(result, f, allow_nan=False)
+
+
+def report_progress(percent, message=''):
+    """Tell the client how far the tool got, as a percentage and a short message"""
+    # Run outside the server, stdout holds the result
+    if not os.environ.get('MCP_RESULT_FILE'):
+        return
+    print(f'{PROGRESS_SENTINEL} {percent:g} {message}'.rstrip(), flush=True)
+
+
+def main(run):
+    """Run a tool with the server-provided inputs and hand over its result"""
+    try:
+        result = run(load_inputs())
+    except ToolError as e:
+        print(str(e), file=sys.stderr)
+        sys.exit(1)
+    write_result(result)
@@ -0,0 +1,311 @@
+"""
+Access log formats shared by the log analysis tools.
+
+A format is a preset name or an nginx log_format string such as
+'$remote_addr [$time_local] "$request" $status $request_time', compiled into
+a parser. Parsers turn a line into a record with the fields below, or None
+when the line does not match:
+
+    ip, time (aware datetime), method, path, protocol, status, bytes,
+    referer, user_agent, request_time and upstream_time (seconds)
+
+Fields the format does not log are None.
+"""
+
+import json
+import re
+from datetime import datetime, timezone
+
+from _common import ToolError
+
+COMBINED = (
+    '$remote_addr - $remote_user [$time_local] "$request" '
+    '$status $body_bytes_sent "$http_referer" "$http_user_agent"'
+)
+COMMON = '$remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent'
+
+# Tried in this order when detecting the format; the first best match wins
+PRESETS = {
+    'combined': COMBINED,
+    'main': COMBINED + ' "$http_x_forwarded_for"',  # nginx's default log_format
+    'timed_combined': COMBINED + ' $request_time $upstream_response_time',
+    'common': COMMON,
+    'apache_combined': (
+        '$remote_addr $remote_logname $remote_user [$time_local] "$request" '
+        '$status $body_bytes_sent "$http_referer" "$http_user_agent"'
+    ),
+    'apache_common': (
+        '$remote_addr $remote_logname $remote_user [$time_local] "$request" $status $body_bytes_sent'
+    ),
+    'json': None,     # One JSON object per line: nginx escape=json formats, Caddy
+    'haproxy': None,  # HAProxy's HTTP log format, with or without the syslog prefix
+}
+ALIASES = {'caddy': 'json', 'apache': 'apache_combined', 'nginx': 'main'}
+DETECT_LINES = 50
+
+VARIABLE = re.compile(r'\$(?:\{(\w+)\}|(\w+))')
+# Variables whose values contain the character that follows them in most formats
+VARIABLE_PATTERNS = {
+    'time_local': r'\d{1,2}/\w{3}/\d{4}:\d{2}:\d{2}:\d{2} [+-]\d{4}',
+    'time_iso8601': r'\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?',
+    'request': r'[^"]*',
+    # Lists of upstream values are separated by ", " (or " : " across upstream groups)
+    'upstream_response_time': r'[\d.-]+(?:(?:, | : )[\d.-]+)*',
+    'upstream_addr': r'\S+(?:(?:, | : )\S+)*',
+    'upstream_status': r'[\d-]+(?:(?:, | : )[\d-]+)*',
+    'http_x_forwarded_for': r'[^"]*',
+}
+
+# Keys used for the same value by common JSON log formats
+JSON_KEYS = {
+    'remote_addr': ('client_ip', 'remote_ip', 'clientip', 'ip'),
+    'time_iso8601': ('time', 'timestamp', '@timestamp'),
+    'time_local': (),
+    'msec': ('ts',),
+    'request': (),
+    'request_method': ('method',),
+    'request_uri': ('uri', 'path', 'url'),
+    'server_protocol': ('protocol',),
+    'status': ('status_code', 'response_status'),
+    'body_bytes_sent': ('bytes_sent', 'size', 'bytes'),
+    'http_referer': ('referer', 'referrer'),
+    'http_user_agent': ('user_agent', 'agent'),
+    'request_time': ('duration', 'response_time'),
+    'upstream_response_time': ('upstream_time',),
+}
+
+HAPROXY = re.compile(
+    r'^(?:.*?haproxy\[\d+\]:\s+)?'
+    r'(?P<ip>[\w.:]+?):\d+ \[(?P<time>[^\]]+)\] \S+ \S+ '
+    r'(?P<tq>-?\d+)/(?P<tw>-?\d+)/(?P<tc>-?\d+)/(?P<tr>-?\d+)/\+?(?P<tt>\d+) '
+    r'(?P<status>\d{3}) \+?(?P<bytes>\d+) .*?"(?P<request>[^"]*)"\s*$'
+)
+
+
+def get_parser(log_format, sample_lines):
+    """
+    Parser for a preset name or log_format string, and the name of the format.
+    'auto' picks the preset that parses most of the sample lines.
+    """
+    name = ALIASES.get(log_format, log_format or 'auto')
+    if name == 'auto':
+        return detect(sample_lines)
+    if name in PRESETS:
+        return preset_parser(name), name
+    if '$' not in name:
+        raise ToolError(
+            f'Unknown log format: {log_format}. Use auto, one of {", ".join([*PRESETS, *ALIASES])}, '
+            'or an nginx log_format string'
+        )
+    return compile_log_format(name), 'custom'
+
+
+def detect(sample_lines):
+    lines = [line for line in sample_lines if line.strip()][:DETECT_LINES]
+    if not lines:
+        return preset_parser('combined'), 'combined'
+
+    best, best_count = None, 0
+    for name in PRESETS:
+        parser = preset_parser(name)
+        count = sum(1 for line in lines if parser(line))
+        if count > best_count:
+            best, best_count = name, count
+    if not best:
+        raise ToolError(
+            f'Could not detect the log format of: {lines[0].strip()[:200]}. '
+            'Pass log_format as a preset or an nginx log_format string'
+        )
+    return preset_parser(best), best
+
+
+def preset_parser(name):
+    if name == 'json':
+        return parse_json
+    if name == 'haproxy':
+        return parse_haproxy
+    return compile_log_format(PRESETS[name])
+
+
+def compile_log_format(log_format):
+    """Parser for an nginx log_format string"""
+    parts = []
+    names = set()
+    position = 0
+    for match in VARIABLE.finditer(log_format):
+        parts.append(re.escape(log_format[position:match.start()]))
+        name = match.group(1) or match.group(2)
+        following = log_format[match.end():match.end() + 1]
+        pattern = VARIABLE_PATTERNS.get(name)
+        if not pattern:
+            # Anything up to the character that follows the variable, or one word at the end
+            pattern = f'[^{re.escape(following)}]*' if following else r'\S*'
+        if name in names:
+            parts.append(f'(?:{pattern})')
+        else:
+            names.add(name)
+            parts.append(f'(?P<{name}>{pattern})')
+        position = match.end()
+    parts.append(re.escape(log_format[position:]))
+
+    if not names:
+        raise ToolError(f'log_format has no $variables: {log_format}')
+    try:
+        regex = re.compile('^' + ''.join(parts) + r'\s*$')
+    except re.error as e:
+        raise ToolError(f'Cannot compile log_format {log_format}: {e}')
+
+    def parse(line):
+        match = regex.match(line.rstrip('\r\n'))
+        return to_record(match.groupdict()) if match else None
+
+    return parse
+
+
+def parse_json(line):
+    line = line.strip()
+    if not line.startswith('{'):
+        return None
+    try:
+        values = json.loads(line)
+    except ValueError:
+        return None
+    if not isinstance(values, dict):
+        return None
+
+    # Caddy nests the request and logs its duration in seconds and ts in Unix seconds
+    request = values.get('request')
+    if isinstance(request, dict):
+        headers = request.get('headers') or {}
+        values = {
+            **values,
+            'remote_addr': request.get('client_ip') or request.get('remote_ip'),
+            'request_method': request.get('method'),
+            'request_uri': request.get('uri'),
+            'server_protocol': request.get('proto'),
+            'http_user_agent': first_header(headers, 'User-Agent'),
+            'http_referer': first_header(headers, 'Referer'),
+            'request_time': values.get('duration'),
+            'body_bytes_sent': values.get('size'),
+            'msec': values.get('ts'),
+            'request': None,
+        }
+
+    fields = {}
+    for name, aliases in JSON_KEYS.items():
+        for key in (name, *aliases):
+            if values.get(key) not in (None, ''):
+                fields[name] = str(values[key])
+                break
+    return to_record(fields) if 'status' in fields else None
+
+
+def parse_haproxy(line):
+    match = HAPROXY.match(line.rstrip('\r\n'))
+    if not match:
+        return None
+    tr = int(match.group('tr'))
+    record = to_record({
+        'remote_addr': match.group('ip'),
+        'status': match.group('status'),
+        'body_bytes_sent': match.group('bytes'),
+        'request': match.group('request'),
+    })
+    record['time'] = parse_timestamp(match.group('time'), '%d/%b/%Y:%H:%M:%S.%f')
+    # Timers are in milliseconds: Tt is the whole session, Tr the server's response (-1 when none)
+    record['request_time'] = int(match.group('tt')) / 1000
+    record['upstream_time'] = tr / 1000 if tr >= 0 else None
+    return record
+
+
+def to_record(fields):
+    """A record from nginx variable values"""
+    method = fields.get('request_method')
+    path = fields.get('request_uri') or fields.get('uri')
+    protocol = fields.get('server_protocol')
+    request = fields.get('request')
+    if request:
+        parts = request.split(' ')
+        if len(parts) >= 2:
+            method, path = method or parts[0], path or parts[1]
+            protocol = protocol or (parts[2] if len(parts) > 2 else None)
+
+    status = fields.get('status')
+    return {
+        'ip': fields.get('remote_addr') or first_address(fields.get('http_x_forwarded_for')),
+        'time': parse_time(fields),
+        'method': method,
+        'path': path,
+        'protocol': protocol,
+        'status': int(status) if status and status.isdigit() else None,
+        'bytes': to_int(fields.get('body_bytes_sent') or fields.get('bytes_sent')),
+        'referer': value_or_none(fields.get('http_referer')),
+        'user_agent': value_or_none(fields.get('http_user_agent')),
+        'request_time': to_seconds(fields.get('request_time')),
+        'upstream_time': to_seconds(fields.get('upstream_response_time')),
+    }
+
+
+def parse_time(fields):
+    if fields.get('time_local'):
+        return parse_timestamp(fields['time_local'], '%d/%b/%Y:%H:%M:%S %z')
+    if fields.get('time_iso8601'):
+        value = fields['time_iso8601'].replace('Z', '+00:00')
+        # Python parses at most microseconds
+        value = re.sub(r'(\.\d{6})\d+', r'\1', value)
+        try:
+            time = datetime.fromisoformat(value)
+        except ValueError:
+            # JSON formats also log $time_local under "time"
+            return parse_timestamp(fields['time_iso8601'], '%d/%b/%Y:%H:%M:%S %z')
+        return time if time.tzinfo else time.replace(tzinfo=timezone.utc)
+    if fields.get('msec'):
+        try:
+            return datetime.fromtimestamp(float(fields['msec']), timezone.utc)
+        except (ValueError, OverflowError, OSError):
+            return None
+    return None
+
+
+def parse_timestamp(value, pattern):
+    try:
+        time = datetime.strptime(value, pattern)
+    except ValueError:
+        return None
+    return time if time.tzinfo else time.replace(tzinfo=timezone.utc)
+
+
+def to_seconds(value):
+    """A time in seconds; lists of upstream times (one per upstream tried) are summed"""
+    if not value:
+        return None
+    total = None
+    for part in re.split(r', | : ', value):
+        try:
+            total = (total or 0) + float(part)
+        except ValueError:
+            continue
+    return total
+
+
+def to_int(value):
+    try:
+        return int(value)
+    except (TypeError, ValueError):
+        return 0
+
+
+def value_or_none(value):
+    return None if value in (None, '', '-') else value
+
+
+def first_address(value):
+    value = value_or_none(value)
+    return value.split(',')[0].strip() if value else None
+
+
+def first_header(headers, name):
+    values = headers.get(name)
+    if isinstance(values, list):
+        return values[0] if values else None
+    return values
@@ -0,0 +1,366 @@
+"""
+Log input shared by the log analysis tools.
+
+A log path is a file, a directory (every file in it) or a glob pattern such
+as /var/log/nginx/access.log*. Files are read oldest rotation first
+(access.log.2.gz, access.log.1, access.log), decompressing .gz, .bz2 and
+.zst, one line at a time so memory stays bounded whatever their size.
+Reading can be sampled by line (every Nth line) or by bytes (a budget spread
+evenly over the files), and lines can be limited to a since/until window.
+"""
+
+import bz2
+import glob
+import gzip
+import io
+import os
+import re
+import subprocess
+from datetime import datetime, timedelta, timezone
+
+from _common import ToolError, report_progress
+
+COMPRESSED = ('.gz', '.bz2', '.zst')
+BLOCK_BYTES = 1024 * 1024  # Size of the blocks a byte budget is read in
+MAX_LISTED_FILES = 20
+PROGRESS_STEP = 10         # Percent of the input between progress reports
+POSITION_LINES = 256       # Lines between checks of how far a compressed file was read
+
+# access.log.2.gz -> access.log, 2; access.log-20240101.gz -> access.log, 20240101
+ROTATION = re.compile(r'^(?P<stem>.+?)(?:[.-](?P<number>\d+))?(?:\.gz|\.bz2|\.zst)?$')
+RELATIVE_TIME = re.compile(r'^(\d+)([smhd])$')
+UNITS = {'s': 'seconds', 'm': 'minutes', 'h': 'hours', 'd': 'days'}
+# Timestamps found in log lines: ISO 8601, nginx/Apache time_local, syslog (no year)
+LINE_TIMES = [
+    (re.compile(r'\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?'), 'iso'),
+    (re.compile(r'\d{2}/\w{3}/\d{4}:\d{2}:\d{2}:\d{2}(?: [+-]\d{4})?'), 'local'),
+    (re.compile(r'^\w{3} [ \d]\d \d{2}:\d{2}:\d{2}'), 'syslog'),
+]
+
+
+def find_files(log_path):
+    """Files named by a path, directory or glob pattern, oldest rotation first"""
+    if os.path.isfile(log_path):
+        return [log_path]
+
+    if os.path.isdir(log_path):
+        root = log_path
+        candidates = [
+            os.path.join(log_path, name) for name in os.listdir(log_path) if not name.startswith('.')
+        ]
+    elif glob.has_magic(log_path):
+        root = pattern_root(log_path)
+        candidates = glob.glob(log_path)
+    else:
+        raise ToolError(f'Log file not found: {log_path}')
+
+    # Symlinks out of the directory are not followed
+    real_root = os.path.realpath(root)
+    files = [
+        path for path in candidates
+        if os.path.isfile(path) and os.path.realpath(path).startswith(real_root + os.sep)
+    ]
+    if not files:
+        raise ToolError(f'No log files in {log_path}')
+    return sorted(files, key=rotation_order)
+
+
+def pattern_root(pattern):
+    """The directory a glob pattern searches: its path up to the first wildcard"""
+    parts = pattern.split(os.sep)
+    for i, part in enumerate(parts):
+        if glob.has_magic(part):
+            return os.sep.join(parts[:i]) or (os.sep if pattern.startswith(os.sep) else '.')
+    return os.path.dirname(pattern)
+
+
+def rotation_order(path):
+    """Sort key putting older rotations of the same log first"""
+    directory, name = os.path.split(path)
+    match = ROTATION.match(name)
+    number = match.group('number')
+    if number is None:
+        age = float('inf')        # The live file is the newest
+    elif len(number) >= 8:
+        age = int(number)         # Date suffixes grow newer
+    else:
+        age = -int(number)        # Counters grow older
+    return (directory, match.group('stem'), age)
+
+
+class TimeWindow:
+    """Lines from since up to until; either bound may be open"""
+
+    def __init__(self, since=None, until=None):
+        self.since = time_bound(since, 'since')
+        self.until = time_bound(until, 'until')
+        if self.since and self.until and self.since > self.until:
+            raise ToolError('since is after until')
+
+    def __bool__(self):
+        return bool(self.since or self.until)
+
+    def contains(self, time):
+        if not self:
+            return True
+        if time is None:
+            return False
+        return (not self.since or time >= self.since) and (not self.until or time <= self.until)
+
+    def describe(self):
+        return {'since': format_time(self.since), 'until': format_time(self.until)}
+
+
+def time_bound(value, name):
+    """A time given as a timestamp, Unix seconds or a duration before now (30m, 2h, 1d)"""
+    if value in (None, ''):
+        return None
+    value = str(value).strip()
+    relative = RELATIVE_TIME.match(value)
+    if relative:
+        amount, unit = relative.groups()
+        return datetime.now(timezone.utc) - timedelta(**{UNITS[unit]: int(amount)})
+    if re.fullmatch(r'\d+(\.\d+)?', value):
+        return datetime.fromtimestamp(float(value), timezone.utc)
+    time = parse_iso(value)
+    if not time:
+        raise ToolError(
+            f'Invalid {name}: {value}. Use a timestamp (2023-01-01T00:00:00), '
+            'Unix seconds or a duration such as 30m, 2h or 1d'
+        )
+    return time
+
+
+def line_time(line):
+    """The first timestamp in a log line, or None"""
+    for pattern, kind in LINE_TIMES:
+        match = pattern.search(line)
+        if not match:
+            continue
+        value = match.group(0)
+        if kind == 'iso':
+            time = parse_iso(value.replace(',', '.'))
+        elif kind == 'local':
+            time = parse_with(value, '%d/%b/%Y:%H:%M:%S %z' if ' ' in value else '%d/%b/%Y:%H:%M:%S')
+        else:
+            time = syslog_time(value)
+        if time:
+            return time
+    return None
+
+
+def parse_iso(value):
+    # Python parses at most microseconds
+    value = re.sub(r'(\.\d{6})\d+', r'\1', value).replace('Z', '+00:00')
+    try:
+        time = datetime.fromisoformat(value)
+    except ValueError:
+        return None
+    return time if time.tzinfo else time.replace(tzinfo=timezone.utc)
+
+
+def parse_with(value, pattern):
+    try:
+        time = datetime.strptime(value, pattern)
+    except ValueError:
+        return None
+    return time if time.tzinfo else time.replace(tzinfo=timezone.utc)
+
+
+def syslog_time(value):
+    """Syslog timestamps have no year: the latest one not in the future"""
+    now = datetime.now(timezone.utc)
+    time = parse_with(f'{now.year} {" ".join(value.split())}', '%Y %b %d %H:%M:%S')
+    if time and time > now + timedelta(days=1):
+        time = time.replace(year=now.year - 1)
+    return time
+
+
+def format_time(time):
+    return time.astimezone(timezone.utc).strftime('%Y-%m-%dT%H:%M:%SZ') if time else None
+
+
+class LogReader:
+    """
+    Lines of a set of log files, sampled as requested, with progress reports.
+    sample_every keeps every Nth line; max_bytes caps the bytes read, taken
+    in blocks spread evenly over plain files and from the start of
+    compressed ones.
+    """
+
+    def __init__(self, files, sample_every=None, max_bytes=None):
+        self.files = files
+        self.sample_every = max(1, int(sample_every or 1))
+        self.max_bytes = int(max_bytes) if max_bytes else None
+        if self.max_bytes is not None and self.max_bytes <= 0:
+            raise ToolError('max_bytes must be a positive number of bytes')
+        self.sizes = [os.path.getsize(path) for path in files]
+        self.total_bytes = sum(self.sizes)
+        self.bytes_read = 0
+        self.lines_read = 0
+        self.lines_sampled = 0
+        self.reported = 0
+        self.path = None         # File of the last line
+        self.line_number = None  # Its line number there, unknown when reading blocks
+
+    def first_lines(self, count):
+        """The first lines of the first file, to detect its format"""
+        lines = []
+        with LogFile(self.files[0]) as log:
+            for line in log:
+                lines.append(line)
+                if len(lines) >= count:
+                    break
+        return lines
+
+    def __iter__(self):
+        target = min(self.total_bytes, self.max_bytes or self.total_bytes) or 1
+        for path, size in zip(self.files, self.sizes):
+            budget = self.budget(size)
+            done = self.bytes_read
+            self.path = path
+            self.line_number = 0
+            with LogFile(path) as log:
+                numbered = budget is None or log.compressed
+                for line in log.read(budget):
+                    self.line_number = self.line_number + 1 if numbered else None
+                    self.lines_read += 1
+                    self.bytes_read = done + log.consumed
+                    self.report(target)
+                    if (self.lines_read - 1) % self.sample_every == 0:
+                        self.lines_sampled += 1
+                        yield line
+            self.bytes_read = done + log.consumed
+
+    def location(self):
+        """File and line number of the last line, for samples taken from it"""
+        return {'file': os.path.basename(self.path), 'line': self.line_number}
+
+    def budget(self, size):
+        """This file's share of max_bytes, or None to read it whole"""
+        if self.max_bytes is None or self.max_bytes >= self.total_bytes:
+            return None
+        return max(1, self.max_bytes * size // self.total_bytes)
+
+    def report(self, target):
+        percent = min(self.bytes_read * 100 // target, 100)
+        if percent >= self.reported + PROGRESS_STEP:
+            self.reported = percent - percent % PROGRESS_STEP
+            report_progress(self.reported, f'Read {self.lines_read} lines')
+
+    def describe(self):
+        """What was read, for the tool result"""
+        sampled = self.sample_every > 1 or self.bytes_read < self.total_bytes
+        return {
+            'files': [os.path.basename(path) for path in self.files[:MAX_LISTED_FILES]],
+            'file_count': len(self.files),
+            'bytes': self.total_bytes,
+            'bytes_read': self.bytes_read,
+            'lines_read': self.lines_read,
+            'lines_sampled': self.lines_sampled,
+            # Share of the input the results describe; scale counts by its inverse
+            'sample_fraction': round(
+                (self.bytes_read / self.total_bytes if self.total_bytes else 1) / self.sample_every, 4
+            ) if sampled else 1,
+        }
+
+
+class LogFile:
+    """One log file, decompressed, read as text lines"""
+
+    def __init__(self, path):
+        self.path = path
+        self.compressed = path.endswith(COMPRESSED)
+        self.consumed = 0  # Bytes of the file read so far
+        self.raw = None
+        self.process = None
+        self.stream = None
+
+    def __enter__(self):
+        self.raw = open(self.path, 'rb')
+        if self.path.endswith('.gz'):
+            self.stream = gzip.GzipFile(fileobj=self.raw)
+        elif self.path.endswith('.bz2'):
+            self.stream = bz2.BZ2File(self.raw)
+        elif self.path.endswith('.zst'):
+            self.stream = self.open_zstd()
+        else:
+            self.stream = self.raw
+        return self
+
+    def __exit__(self, *exc):
+        if self.process:
+            self.process.kill()
+            self.process.wait()
+        if self.stream is not self.raw:
+            self.stream.close()
+        self.raw.close()
+
+    def __iter__(self):
+        return self.read(None)
+
+    def read(self, budget):
+        """Lines of the file; with a budget, about that many of its bytes"""
+        if budget is None or self.compressed:
+            return self.read_all(budget)
+        return self.read_blocks(budget)
+
+    def read_all(self, budget):
+        for count, line in enumerate(self.stream):
+            if not self.compressed:
+                self.consumed += len(line)
+            elif count % POSITION_LINES == 0:
+                self.consumed = self.position()
+            yield decode(line)
+            if budget is not None and self.consumed >= budget:
+                # Decompressors read ahead of the lines returned; count the budget as read
+                self.consumed = budget
+                return
+        if self.compressed:
+            self.consumed = self.position()
+
+    def read_blocks(self, budget):
+        """Blocks spread evenly over the file, each starting at a line"""
+        size = os.fstat(self.raw.fileno()).st_size
+        blocks = max(1, -(-budget // BLOCK_BYTES))
+        block_bytes = budget // blocks
+        for i in range(blocks):
+            self.raw.seek(size * i // blocks)
+            if i > 0:
+                self.raw.readline()  # The rest of a line the block starts inside
+            block_read = 0
+            while block_read < block_bytes:
+                line = self.raw.readline()
+                if not line:
+                    break
+                block_read += len(line)
+                self.consumed += len(line)
+                yield decode(line)
+
+    def position(self):
+        """Offset in the compressed file, also when a zstd process reads it"""
+        return os.lseek(self.raw.fileno(), 0, os.SEEK_CUR)
+
+    def open_zstd(self):
+        try:
+            import zstandard
+            return io.BufferedReader(zstandard.ZstdDecompressor().stream_reader(self.raw))
+        except ImportError:
+            pass
+        try:
+            # The process reads the file through the same descriptor, so position() follows it
+            self.process = subprocess.Popen(
+                ['zstd', '-dcq'], stdin=self.raw, stdout=subprocess.PIPE, stderr=subprocess.DEVNULL
+            )
+        except PermissionError:
+            # The network guard denies starting processes when it has no network namespace
+            raise ToolError(f'Cannot read {self.path}: reading .zst logs needs the zstandard package')
+        except OSError:
+            raise ToolError(
+                f'Cannot read {self.path}: .zst files need the zstandard Python package or the zstd command'
+            )
+        return self.process.stdout
+
+
+def decode(line):
+    return line.decode('utf-8', errors='replace')
@@ -0,0 +1,280 @@
+"""
+Docker Log Analyzer
+
+Reads a container's logs in Docker's json-file format (<id>-json.log, one
+{"log", "stream", "time"} object per line) from a log file or a container
+directory, and summarizes errors and warnings per stream, repeated messages,
+restart and OOM markers, and traffic over time. Works offline on copied logs.
+"""
+
+import gzip
+import json
+import os
+import re
+from collections import Counter, deque
+from datetime import datetime, timedelta, timezone
+
+from _common import ToolError, main, report_progress
+from _log_input import time_bound
+
+TOP_MESSAGES = 10
+MAX_MARKERS = 10         # Restart and OOM lines returned of each kind
+MAX_MESSAGE_LENGTH = 200
+MAX_BUCKETS = 48         # Histogram buckets; the bucket size grows to stay under this
+PROGRESS_STEP = 10       # Percent of the logs between progress reports
+
+BUCKET_SIZES = [
+    (timedelta(minutes=1), '1m'),
+    (timedelta(minutes=5), '5m'),
+    (timedelta(minutes=15), '15m'),
+    (timedelta(hours=1), '1h'),
+    (timedelta(hours=6), '6h'),
+    (timedelta(days=1), '1d'),
+]
+
+ERROR = re.compile(r'\b(error|err|fatal|critical|crit|panic|exception|traceback)\b', re.IGNORECASE)
+WARNING = re.compile(r'\b(warn|warning)\b', re.IGNORECASE)
+OOM = re.compile(
+    r'out of memory|oom[-_ ]?kill|OutOfMemoryError|MemoryError|Cannot allocate memory|'
+    r'JavaScript heap out of memory|\bKilled\b',
+    re.IGNORECASE,
+)
+# Lines a process typically logs as it stops, and as it starts again
+STOPPING = re.compile(
+    r'\b(restarting|shutting down|received (SIGTERM|SIGINT)|graceful(ly)? (shutdown|stopping))\b',
+    re.IGNORECASE,
+)
+STARTING = re.compile(r'\b(starting up|server (started|starting)|listening on)\b', re.IGNORECASE)
+# Start lines this close together belong to one start, like "starting" then "listening on"
+START_WINDOW = timedelta(minutes=1)
+# Variable parts of a message, replaced so repeats of the same message count together
+NORMALIZERS = [
+    (re.compile(r'^\S*\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}\S*\s*'), ''),
+    (re.compile(r'\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b', re.IGNORECASE), '<uuid>'),
+    (re.compile(r'\b\d{1,3}(\.\d{1,3}){3}(:\d+)?\b'), '<ip>'),
+    (re.compile(r'\b0x[0-9a-f]+\b|\b[0-9a-f]{12,}\b', re.IGNORECASE), '<hex>'),
+    (re.compile(r'\d+(\.\d+)?'), '<n>'),
+]
+
+
+def run(inputs):
+    log_path = inputs['log_path']
+    since = time_bound(inputs.get('since'), 'since')
+    files = find_log_files(log_path)
+    total_bytes = sum(os.path.getsize(f) for f in files) or 1
+
+    streams = {}
+    messages = Counter()
+    message_info = {}
+    restarts = deque(maxlen=MAX_MARKERS)
+    ooms = deque(maxlen=MAX_MARKERS)
+    restart_count = oom_count = 0
+    stopped = False     # A stop line came after the last start
+    last_start = None
+    minutes = Counter()  # Lines per minute, merged into larger buckets at the end
+    first = last = None
+    total_lines = skipped = unparsed = 0
+    read = reported = 0
+
+    for file in files:
+        with open_log(file) as f:
+            for number, line in enumerate(f, 1):
+                read += len(line)
+                percent = min(read * 100 // total_bytes, 100)
+                if percent >= reported + PROGRESS_STEP:
+                    reported = percent - percent % PROGRESS_STEP
+                    report_progress(reported, f'Read {total_lines + skipped + unparsed} lines')
+
+                entry = parse_entry(line)
+                if not entry:
+                    unparsed += 1
+                    continue
+                message, stream, time = entry
+                if since and time and time < since:
+                    skipped += 1
+                    continue
+
+                total_lines += 1
+                if time:
+                    minutes[time.replace(second=0, microsecond=0)] += 1
+                    first = time if first is None else min(first, time)
+                    last = time if last is None else max(last, time)
+
+                counts = streams.setdefault(stream, {'lines': 0, 'errors': 0, 'warnings': 0})
+                counts['lines'] += 1
+                level = classify(message)
+                if level:
+                    counts[level] += 1
+
+                key = normalize(message)
+                if key:
+                    messages[key] += 1
+                    message_info.setdefault(key, {'stream': stream, 'level': level})
+
+                marker = {
+                    'file': os.path.basename(file),
+                    'line': number,
+                    'time': format_time(time),
+                    'stream': stream,
+                    'message': message[:MAX_MESSAGE_LENGTH],
+                }
+                if OOM.search(message):
+                    oom_count += 1
+                    ooms.append(marker)
+                elif STOPPING.search(message):
+                    stopped = True
+                    restarts.append(marker)
+                elif STARTING.search(message):
+                    # The first start is the container's own; count the later ones
+                    if stopped or (last_start and time and time - last_start > START_WINDOW):
+                        restart_count += 1
+                    stopped = False
+                    last_start = time or last_start
+                    restarts.append(marker)
+
+    state = container_state(log_path)
+    result = {
+        'container': (state and state['name']) or container_name(log_path),
+        'files': files,
+        'since': format_time(since),
+        'time_range': {'first': format_time(first), 'last': format_time(last)},
+        'total_lines': total_lines,
+        'skipped_before_since': skipped,
+        'unparsed_lines': unparsed,
+        'streams': streams,
+        'top_messages': [
+            {'message': key, 'count': count, **message_info[key]}
+            for key, count in messages.most_common(TOP_MESSAGES)
+            if count > 1
+        ],
+        # The latest lines of each kind
+        'restart_markers': {'count': restart_count, 'lines': list(restarts)},
+        'oom_markers': {'count': oom_count, 'lines': list(ooms)},
+        'histogram': histogram(minutes, first, last),
+    }
+    if state:
+        result['state'] = state
+    return result
+
+
+def find_log_files(log_path):
+    """The log file, or a container directory's log and its rotations, oldest first"""
+    if os.path.isfile(log_path):
+        return [log_path]
+    if not os.path.isdir(log_path):
+        raise ToolError(f'Log path not found: {log_path}')
+
+    # Rotated files are <id>-json.log.1, .2, ... (optionally .gz); higher numbers are older
+    rotations = []
+    for name in os.listdir(log_path):
+        match = re.match(r'^.+-json\.log(?:\.(\d+))?(?:\.gz)?$', name)
+        if match:
+            rotations.append((int(match.group(1) or 0), os.path.join(log_path, name)))
+    if not rotations:
+        raise ToolError(f'No *-json.log files in {log_path}; is this a container directory?')
+    return [path for _, path in sorted(rotations, reverse=True)]
+
+
+def open_log(path):
+    if path.endswith('.gz'):
+        return gzip.open(path, 'rt', errors='replace')
+    return open(path, 'r', errors='replace')
+
+
+def parse_entry(line):
+    """(message, stream, time) of a json-file line, or None when it is not one"""
+    try:
+        record = json.loads(line)
+    except ValueError:
+        return None
+    if not isinstance(record, dict) or not isinstance(record.get('log'), str):
+        return None
+    return (
+        record['log'].rstrip('\r\n'),
+        record.get('stream') or 'stdout',
+        parse_time(record.get('time')),
+    )
+
+
+def parse_time(value):
+    """A Docker timestamp (RFC 3339 with nanoseconds) as an aware datetime"""
+    if not isinstance(value, str):
+        return None
+    # Python parses at most microseconds
+    value = re.sub(r'(\.\d{6})\d+', r'\1', value.strip()).replace('Z', '+00:00')
+    try:
+        time = datetime.fromisoformat(value)
+    except ValueError:
+        return None
+    return time if time.tzinfo else time.replace(tzinfo=timezone.utc)
+
+
+def classify(message):
+    if ERROR.search(message):
+        return 'errors'
+    if WARNING.search(message):
+        return 'warnings'
+    return None
+
+
+def normalize(message):
+    message = message.strip()
+    for pattern, replacement in NORMALIZERS:
+        message = pattern.sub(replacement, message)
+    return message[:MAX_MESSAGE_LENGTH]
+
+
+def histogram(minutes, first, last):
+    """Lines per time bucket, with a bucket size that keeps the count small"""
+    if not minutes:
+        return {'bucket': None, 'counts': {}}
+    span = last - first
+    size, label = BUCKET_SIZES[-1]
+    for candidate, candidate_label in BUCKET_SIZES:
+        if span / candidate < MAX_BUCKETS:
+            size, label = candidate, candidate_label
+            break
+
+    epoch = datetime(1970, 1, 1, tzinfo=timezone.utc)
+    counts = Counter()
+    for minute, count in minutes.items():
+        start = epoch + size * ((minute - epoch) // size)
+        counts[format_time(start)] += count
+    return {'bucket': label, 'counts': dict(sorted(counts.items()))}
+
+
+def container_name(log_path):
+    """Container id or name, from the directory or log file name"""
+    path = log_path.rstrip(os.sep)
+    if os.path.isfile(path):
+        name = os.path.basename(path)
+        return re.sub(r'-json\.log(\.\d+)?(\.gz)?$', '', name)
+    return os.path.basename(path)
+
+
+def container_state(log_path):
+    """Restart count and OOM kill flag from a container directory's config.v2.json"""
+    directory = log_path if os.path.isdir(log_path) else os.path.dirname(log_path)
+    try:
+        with open(os.path.join(directory, 'config.v2.json'), 'r') as f:
+            config = json.load(f)
+    except (OSError, ValueError):
+        return None
+    state = config.get('State') or {}
+    return {
+        'name': (config.get('Name') or '').lstrip('/') or None,
+        'running': state.get('Running'),
+        'restart_count': config.get('RestartCount'),
+        'oom_killed': state.get('OOMKilled'),
+        'exit_code': state.get('ExitCode'),
+        'started_at': state.get('StartedAt'),
+        'finished_at': state.get('FinishedAt'),
+    }
+
+
+def format_time(time):
+    return time.astimezone(timezone.utc).strftime('%Y-%m-%dT%H:%M:%SZ') if time else None
+
+
+if __name__ == '__main__':
+    main(run)
@@ -0,0 +1,56 @@
+"""
+Log Pattern Analyzer
+
+Searches log files for a regex and returns the first matching lines. Input
+may be rotated, compressed or sampled (see _log_input); only the first
+matches are kept, so memory stays bounded.
+"""
+
+import re
+
+from _common import ToolError, main
+from _log_input import LogReader, TimeWindow, find_files, line_time
+
+DEFAULT_PATTERN = 'ERROR|WARN|CRITICAL'
+MAX_MATCHES = 10  # Top 10
+
+
+def run(inputs):
+    pattern = inputs.get('pattern') or DEFAULT_PATTERN
+    try:
+        regex = re.compile(pattern, re.IGNORECASE)
+    except re.error as e:
+        raise ToolError(f'Invalid pattern {pattern}: {e}')
+
+    window = TimeWindow(inputs.get('since'), inputs.get('until'))
+    files = find_files(inputs['log_file_path'])
+    reader = LogReader(files, inputs.get('sample_every'), inputs.get('max_bytes'))
+    matches = []
+    total_matches = 0
+    outside_window = 0
+    time = None
+    for line in reader:
+        if window:
+            # Lines without a timestamp (stack traces, continuations) belong to the last one seen
+            time = line_time(line) or time
+            if not window.contains(time):
+                outside_window += 1
+                continue
+        if regex.search(line):
+            total_matches += 1
+            if len(matches) < MAX_MATCHES:
+                matches.append({**reader.location(), 'content': line.strip()[:100]})
+
+    result = {
+        'total_matches': total_matches,
+        'pattern': pattern,
+        'matches': matches,
+        'input': {**reader.describe(), **(window.describe() if window else {})},
+    }
+    if window:
+        result['input']['lines_outside_window'] = outside_window
+    return result
+
+
+if __name__ == '__main__':
+    main(run)
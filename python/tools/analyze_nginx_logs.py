@@ -0,0 +1,442 @@
+"""
+Nginx Log Analyzer - Demonstrates Token Savings with MCP Code Execution
+
+This script analyzes nginx access logs and returns compact summaries
+instead of sending the entire log file to the LLM. Other access log formats
+(Apache, Caddy, HAProxy, JSON, custom nginx log_format strings) are parsed
+through _log_formats; rotated, compressed and sampled input is read through
+_log_input. Counters are bounded, so multi-GB logs take bounded memory.
+
+TOKEN SAVINGS DEMO:
+- Without MCP: Send entire log file (~50,000 tokens)
+- With MCP: Execute this script, return summary (~500 tokens)
+- Savings: 100x reduction!
+"""
+
+import math
+import re
+from collections import Counter, defaultdict
+from urllib.parse import unquote
+
+from _common import ToolError, main
+from _log_formats import DETECT_LINES, get_parser
+from _log_input import LogReader, TimeWindow, find_files
+
+# What each analysis_type computes; the overview and status codes are always included
+ANALYSES = {
+    'errors': {'errors'},
+    'traffic': {'traffic'},
+    'performance': {'performance'},
+    'security': {'security'},
+    'full': {'errors', 'traffic', 'performance', 'security'},
+}
+MAX_UNPARSED_SAMPLES = 3
+SLOWEST_ENDPOINTS = 5
+MIN_ENDPOINT_REQUESTS = 3  # Endpoints seen fewer times are left out of the slowest
+MAX_COUNTED_KEYS = 50000   # Distinct endpoints, IPs, ... counted before the rarest are dropped
+LATENCY_BUCKET = 0.01      # Relative width of the latency histogram buckets (1%)
+
+# Request patterns of common attacks, checked on the decoded request path
+ATTACKS = {
+    'path_traversal': re.compile(r'\.\.[/\\]'),
+    'sql_injection': re.compile(
+        r"union(\s|/\*.*?\*/)+(all\s+)?select|'\s*(or|and)\s+'?\d+'?\s*=\s*'?\d|"
+        r'information_schema|sleep\(\s*\d+\s*\)|benchmark\(',
+        re.IGNORECASE,
+    ),
+    'xss': re.compile(r'<script|javascript:|\bon(error|load)\s*=', re.IGNORECASE),
+    'command_injection': re.compile(r';\s*(cat|wget|curl|bash|sh|id|uname)\b|\$\(|`', re.IGNORECASE),
+    'sensitive_files': re.compile(
+        r'/\.(env|git|aws|ssh|htaccess|htpasswd)\b|wp-config\.php|/etc/passwd|'
+        r'id_rsa|phpmyadmin|/wp-login\.php|/xmlrpc\.php|/server-status',
+        re.IGNORECASE,
+    ),
+}
+SCANNERS = re.compile(
+    r'sqlmap|nikto|nmap|masscan|zgrab|nuclei|dirbuster|gobuster|wpscan|acunetix|nessus|hydra',
+    re.IGNORECASE,
+)
+
+
+def parse_nginx_log(
+    log_file_path,
+    analysis_type='full',
+    log_format='auto',
+    since=None,
+    until=None,
+    sample_every=None,
+    max_bytes=None,
+):
+    """
+    Parse nginx log files and extract key metrics
+    Returns a compact summary instead of raw logs
+    """
+    if analysis_type not in ANALYSES:
+        raise ToolError(f'Unknown analysis_type: {analysis_type}. Use one of {", ".join(ANALYSES)}')
+
+    try:
+        window = TimeWindow(since, until)
+        reader = LogReader(find_files(log_file_path), sample_every, max_bytes)
+        parser, format_name = get_parser(log_format, reader.first_lines(DETECT_LINES))
+
+        stats = AccessLogStats(ANALYSES[analysis_type], reader.location)
+        outside_window = 0
+        for line in reader:
+            record = parser(line)
+            if not record or record['status'] is None:
+                if line.strip():
+                    stats.add_unparsed(line)
+            elif window.contains(record['time']):
+                stats.add(record)
+            else:
+                outside_window += 1
+
+        summary = stats.summary(format_name)
+        summary['input'] = {
+            **reader.describe(),
+            **(window.describe() if window else {}),
+            'lines_outside_window': outside_window,
+        }
+        return summary
+
+    except ToolError:
+        raise
+    except Exception as e:
+        raise ToolError(f'Error analyzing logs: {str(e)}')
+
+
+class AccessLogStats:
+    """
+    Counters for the requests of one log, limited to the requested analyses.
+    location gives the file and line of the current line for its samples.
+    """
+
+    def __init__(self, analyses, location):
+        self.analyses = analyses
+        self.location = location
+        self.total_requests = 0
+        self.total_bytes = 0
+        self.unparsed = 0
+        self.unparsed_samples = []
+        self.status_codes = Counter()
+
+        # traffic
+        self.endpoints = TopCounter()
+        self.methods = Counter()
+        self.ips = TopCounter()
+        self.user_agents = Counter()
+        self.hourly_traffic = defaultdict(int)
+
+        # errors
+        self.errors_5xx = 0
+        self.errors_5xx_details = []
+        self.errors_4xx = 0
+        self.errors_4xx_endpoints = TopCounter()
+
+        # performance
+        self.request_times = LatencyHistogram()
+        self.upstream_times = LatencyHistogram()
+        self.endpoint_times = {}  # count, total and max per endpoint
+
+        # security
+        self.attacks = Counter()
+        self.attack_ips = TopCounter()
+        self.attack_samples = []
+        self.scanners = Counter()
+        self.auth_failures = TopCounter()  # 401 and 403 per IP
+        self.not_found = TopCounter()      # 404 per IP
+
+    def add_unparsed(self, line):
+        self.unparsed += 1
+        if len(self.unparsed_samples) < MAX_UNPARSED_SAMPLES:
+            self.unparsed_samples.append({**self.location(), 'content': line.strip()[:200]})
+
+    def add(self, record):
+        status = record['status']
+        endpoint = record['path'] or '-'
+        ip = record['ip'] or '-'
+        self.total_requests += 1
+        self.total_bytes += record['bytes']
+        self.status_codes[status] += 1
+
+        if 'traffic' in self.analyses:
+            self.endpoints.add(endpoint)
+            self.methods[record['method'] or '-'] += 1
+            self.ips.add(ip)
+            self.user_agents[agent_kind(record['user_agent'])] += 1
+            if record['time']:
+                self.hourly_traffic[record['time'].strftime('%H:00')] += 1
+
+        if 'errors' in self.analyses:
+            if 500 <= status < 600:
+                self.errors_5xx += 1
+                if len(self.errors_5xx_details) < 5:  # Top 5 only
+                    self.errors_5xx_details.append({
+                        **self.location(),
+                        'endpoint': endpoint,
+                        'status': status,
+                        'ip': ip,
+                        'timestamp': record['time'].isoformat() if record['time'] else None,
+                    })
+            elif 400 <= status < 500:
+                self.errors_4xx += 1
+                self.errors_4xx_endpoints.add(endpoint)
+
+        if 'performance' in self.analyses:
+            if record['request_time'] is not None:
+                self.request_times.add(record['request_time'])
+                self.add_endpoint_time(endpoint.split('?')[0], record['request_time'])
+            if record['upstream_time'] is not None:
+                self.upstream_times.add(record['upstream_time'])
+
+        if 'security' in self.analyses:
+            self.add_security(record, endpoint, ip)
+
+    def add_endpoint_time(self, endpoint, seconds):
+        timing = self.endpoint_times.get(endpoint)
+        if not timing:
+            timing = self.endpoint_times[endpoint] = [0, 0.0, 0.0]
+            if len(self.endpoint_times) > MAX_COUNTED_KEYS:
+                # Keep the most requested half
+                kept = sorted(self.endpoint_times.items(), key=lambda item: item[1][0], reverse=True)
+                self.endpoint_times = dict(kept[:MAX_COUNTED_KEYS // 2])
+                timing = self.endpoint_times.setdefault(endpoint, [0, 0.0, 0.0])
+        timing[0] += 1
+        timing[1] += seconds
+        timing[2] = max(timing[2], seconds)
+
+    def add_security(self, record, endpoint, ip):
+        status = record['status']
+        if status in (401, 403):
+            self.auth_failures.add(ip)
+        elif status == 404:
+            self.not_found.add(ip)
+        if record['user_agent'] and SCANNERS.search(record['user_agent']):
+            self.scanners[SCANNERS.search(record['user_agent']).group(0).lower()] += 1
+
+        path = unquote(unquote(endpoint))
+        for attack, pattern in ATTACKS.items():
+            if pattern.search(path):
+                self.attacks[attack] += 1
+                self.attack_ips.add(ip)
+                if len(self.attack_samples) < 5:
+                    self.attack_samples.append({
+                        **self.location(),
+                        'ip': ip,
+                        'attack': attack,
+                        'request': f"{record['method'] or '-'} {endpoint}"[:200],
+                        'status': status,
+                    })
+                break
+
+    def summary(self, format_name):
+        total = self.total_requests
+        success = sum(count for code, count in self.status_codes.items() if 200 <= code < 300)
+        errors_5xx = sum(count for code, count in self.status_codes.items() if 500 <= code < 600)
+        errors_4xx = sum(count for code, count in self.status_codes.items() if 400 <= code < 500)
+        success_rate = percentage(success, total)
+        error_rate_5xx = percentage(errors_5xx, total)
+        error_rate_4xx = percentage(errors_4xx, total)
+
+        # Prepare compact summary
+        summary = {
+            'parsing': {
+                'format': format_name,
+                'parsed_lines': total,
+                'unparsed_lines': self.unparsed,
+                'unparsed_samples': self.unparsed_samples,
+            },
+            'overview': {
+                'total_requests': total,
+                'total_bytes_transferred': self.total_bytes,
+                'avg_response_size': self.total_bytes // total if total > 0 else 0,
+                'success_rate': f"{success_rate:.1f}%",
+                'error_rate_5xx': f"{error_rate_5xx:.1f}%",
+                'error_rate_4xx': f"{error_rate_4xx:.1f}%"
+            },
+            'status_codes': {str(code): count for code, count in self.status_codes.most_common()},
+        }
+        recommendations = []
+
+        if 'traffic' in self.analyses:
+            summary.update({
+                'top_endpoints': dict(self.endpoints.most_common(10)),
+                'http_methods': dict(self.methods),
+                'top_ips': dict(self.ips.most_common(10)),
+                'user_agents': dict(self.user_agents),
+                'hourly_traffic': dict(sorted(self.hourly_traffic.items())),
+            })
+
+        if 'errors' in self.analyses:
+            summary['errors_5xx'] = {'count': self.errors_5xx, 'details': self.errors_5xx_details}
+            summary['errors_4xx'] = {
+                'count': self.errors_4xx,
+                'top_endpoints': dict(self.errors_4xx_endpoints.most_common(5)),
+            }
+            if error_rate_5xx > 5:
+                recommendations.append(
+                    f"⚠️  HIGH: {error_rate_5xx:.1f}% of requests are server errors (5xx). Investigate backend issues."
+                )
+            if error_rate_4xx > 20:
+                recommendations.append(
+                    f"⚠️  MEDIUM: {error_rate_4xx:.1f}% of requests are client errors (4xx). "
+                    "Check for broken links or API changes."
+                )
+            if self.status_codes.get(404, 0) > total * 0.1:
+                recommendations.append(
+                    f"⚠️  MEDIUM: {self.status_codes[404]} requests are 404 Not Found. Review missing resources."
+                )
+
+        if 'performance' in self.analyses:
+            summary['latency'] = self.latency()
+            p95 = (summary['latency'].get('request_time') or {}).get('p95_ms')
+            if p95 is not None and p95 > 1000:
+                recommendations.append(
+                    f"⚠️  MEDIUM: p95 request time is {p95:.0f} ms. "
+                    "Check the slowest endpoints and upstream response times."
+                )
+
+        if 'security' in self.analyses:
+            summary['security'] = {
+                'suspicious_requests': sum(self.attacks.values()),
+                'by_attack': dict(self.attacks.most_common()),
+                'top_suspicious_ips': dict(self.attack_ips.most_common(5)),
+                'samples': self.attack_samples,
+                'scanners': dict(self.scanners.most_common()),
+                'auth_failures': {
+                    'count': sum(self.auth_failures.values()),
+                    'top_ips': dict(self.auth_failures.most_common(5)),
+                },
+                'top_404_ips': dict(self.not_found.most_common(5)),
+            }
+            if self.attacks:
+                recommendations.append(
+                    f"⚠️  HIGH: {sum(self.attacks.values())} requests look like attacks "
+                    f"({', '.join(self.attacks)}) from {len(self.attack_ips)} IPs. Review the top suspicious IPs."
+                )
+            if self.scanners:
+                recommendations.append(
+                    f"⚠️  MEDIUM: Vulnerability scanners seen ({', '.join(self.scanners)}). Consider blocking them."
+                )
+
+        if self.unparsed and self.unparsed > total * 0.1:
+            recommendations.append(
+                f"⚠️  MEDIUM: {self.unparsed} lines did not match the {format_name} format. "
+                "Pass log_format to match the server's configuration."
+            )
+
+        if not recommendations:
+            recommendations.append("✅ No critical issues detected. System health looks good!")
+        summary['recommendations'] = recommendations
+        return summary
+
+    def latency(self):
+        if not self.request_times.count and not self.upstream_times.count:
+            return {'note': 'The log format has no $request_time or $upstream_response_time'}
+
+        slowest = sorted(
+            (
+                {'endpoint': endpoint, 'count': count, 'avg_ms': to_ms(total / count), 'max_ms': to_ms(peak)}
+                for endpoint, (count, total, peak) in self.endpoint_times.items()
+                if count >= MIN_ENDPOINT_REQUESTS
+            ),
+            key=lambda timing: timing['avg_ms'],
+            reverse=True,
+        )
+        return {
+            'request_time': self.request_times.distribution(),
+            'upstream_response_time': self.upstream_times.distribution(),
+            'slowest_endpoints': slowest[:SLOWEST_ENDPOINTS],
+        }
+
+
+class TopCounter(Counter):
+    """
+    A Counter of at most MAX_COUNTED_KEYS keys: past that, the rarer half is
+    dropped, so the top counts stay right while unique URLs or IPs cannot
+    exhaust memory
+    """
+
+    def add(self, key):
+        self[key] += 1
+        if len(self) > MAX_COUNTED_KEYS:
+            kept = self.most_common(MAX_COUNTED_KEYS // 2)
+            self.clear()
+            self.update(dict(kept))
+
+
+class LatencyHistogram:
+    """Times in buckets 1% wide, so percentiles take bounded memory and are within 1%"""
+
+    def __init__(self):
+        self.buckets = Counter()
+        self.count = 0
+        self.total = 0.0
+        self.max = 0.0
+
+    def add(self, seconds):
+        seconds = max(seconds, 0.0)
+        self.buckets[int(math.log1p(seconds * 1000) / math.log1p(LATENCY_BUCKET))] += 1
+        self.count += 1
+        self.total += seconds
+        self.max = max(self.max, seconds)
+
+    def distribution(self):
+        """Percentiles in milliseconds; None without times"""
+        if not self.count:
+            return None
+        return {
+            'count': self.count,
+            'p50_ms': self.percentile(50),
+            'p95_ms': self.percentile(95),
+            'p99_ms': self.percentile(99),
+            'max_ms': to_ms(self.max),
+            'avg_ms': to_ms(self.total / self.count),
+        }
+
+    def percentile(self, p):
+        """Nearest-rank percentile, as the middle of its bucket"""
+        rank = max(1, -(-self.count * p // 100))
+        seen = 0
+        for bucket in sorted(self.buckets):
+            seen += self.buckets[bucket]
+            if seen >= rank:
+                middle = math.expm1((bucket + 0.5) * math.log1p(LATENCY_BUCKET))
+                return round(min(middle, self.max * 1000), 1)
+        return to_ms(self.max)
+
+
+def to_ms(seconds):
+    return round(seconds * 1000, 1)
+
+
+def percentage(count, total):
+    return count / total * 100 if total > 0 else 0
+
+
+def agent_kind(user_agent):
+    """Track user agents (simplified)"""
+    user_agent = user_agent or ''
+    if 'bot' in user_agent.lower():
+        return 'bot'
+    if 'curl' in user_agent.lower():
+        return 'curl'
+    if 'Mozilla' in user_agent:
+        return 'browser'
+    return 'other'
+
+
+def run(inputs):
+    return parse_nginx_log(
+        inputs['log_file_path'],
+        inputs.get('analysis_type') or 'full',
+        inputs.get('log_format') or 'auto',
+        since=inputs.get('since'),
+        until=inputs.get('until'),
+        sample_every=inputs.get('sample_every'),
+        max_bytes=inputs.get('max_bytes'),
+    )
+
+
+if __name__ == '__main__':
+    main(run)
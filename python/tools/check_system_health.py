@@ -0,0 +1,32 @@
+"""
+System Health Check
+
+Reports disk usage and whether it crosses the alert threshold.
+"""
+
+import shutil
+
+from _common import main
+
+
+def run(inputs):
+    threshold = float(inputs.get('threshold_disk_percent', 80))
+
+    # Check disk space
+    total, used, free = shutil.disk_usage('/')
+    disk_percent = (used / total) * 100
+
+    return {
+        'disk': {
+            'total_gb': round(total / (1024**3), 2),
+            'used_gb': round(used / (1024**3), 2),
+            'free_gb': round(free / (1024**3), 2),
+            'used_percent': round(disk_percent, 2),
+            'alert': disk_percent > threshold,
+        },
+        'overall_health': 'OK' if disk_percent < threshold else 'WARNING',
+    }
+
+
+if __name__ == '__main__':
+    main(run)
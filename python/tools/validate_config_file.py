@@ -0,0 +1,41 @@
+"""
+Config File Validator
+
+Parses a JSON or YAML file and reports whether it is valid and its top-level keys.
+"""
+
+import json
+
+import yaml
+
+from _common import main
+
+
+def run(inputs):
+    config_file = inputs['file_path']
+    try:
+        with open(config_file, 'r') as f:
+            content = f.read()
+
+        file_type = inputs.get('file_type', 'auto')
+        if file_type == 'auto':
+            file_type = config_file.split('.')[-1]
+
+        if file_type in ['yaml', 'yml']:
+            data = yaml.safe_load(content)
+        elif file_type == 'json':
+            data = json.loads(content)
+        else:
+            return {'valid': False, 'error': f'Unsupported file type: {file_type}'}
+
+        return {
+            'valid': True,
+            'file_type': file_type,
+            'keys': list(data.keys()) if isinstance(data, dict) else None,
+        }
+    except Exception as e:
+        return {'valid': False, 'error': str(e)}
+
+
+if __name__ == '__main__':
+    main(run)
@@ -0,0 +1,39 @@
+"""
+Kubernetes YAML Validator
+
+Checks that a manifest parses and flags missing best practices.
+"""
+
+import yaml
+
+from _common import main
+
+
+def run(inputs):
+    try:
+        with open(inputs['yaml_file_path'], 'r') as f:
+            docs = list(yaml.safe_load_all(f))
+
+        results = {
+            'valid': True,
+            'documents': len(docs),
+            'resources': [doc.get('kind', 'Unknown') for doc in docs if doc],
+            'recommendations': [],
+        }
+
+        # Check best practices
+        if inputs.get('check_best_practices', True):
+            for doc in docs:
+                if not doc:
+                    continue
+                containers = doc.get('spec', {}).get('template', {}).get('spec', {}).get('containers', [{}])
+                if 'resources' not in containers[0]:
+                    results['recommendations'].append('Consider adding resource limits/requests')
+
+        return results
+    except Exception as e:
+        return {'valid': False, 'error': str(e)}
+
+
+if __name__ == '__main__':
+    main(run)
@@ -0,0 +1,100 @@
+/**
+ * Artifact Resources
+ * Exposes a client's artifacts through MCP resources/list and
+ * resources/read, and turns the files an execution wrote into content
+ * blocks of its tool result: small images inline, other files as links.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ContentBlock,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ArtifactStore, artifactUri, parseArtifactUri } from './executor/artifact-store.js';
+import { OutputFile } from './types/index.js';
+
+// Larger images are linked rather than inlined in the tool result
+const MAX_INLINE_IMAGE_BYTES = 1024 * 1024;
+
+/**
+ * Serve the client's artifacts as resources on a session's server
+ */
+export function registerArtifactResources(
+  server: Server,
+  artifacts: ArtifactStore,
+  client: string
+): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: (await artifacts.list(client)).map(record => ({
+      uri: artifactUri(record.id),
+      name: record.name,
+      mimeType: record.mimeType,
+      size: record.bytes,
+      description: `${isStream(record.name) ? `Full ${record.name}` : 'File'} of an execution, ` +
+        `created ${new Date(record.createdAt).toISOString()}`,
+    })),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const { record, content } = await artifacts.load(client, parseArtifactUri(uri));
+    return {
+      contents: [
+        isText(record.mimeType)
+          ? { uri, mimeType: record.mimeType, text: content.toString() }
+          : { uri, mimeType: record.mimeType, blob: content.toString('base64') },
+      ],
+    };
+  });
+}
+
+/**
+ * Content blocks for an execution's output files
+ */
+export async function fileContent(
+  artifacts: ArtifactStore,
+  client: string,
+  files: OutputFile[] = []
+): Promise<ContentBlock[]> {
+  const blocks: ContentBlock[] = [];
+  for (const file of files) {
+    if (file.mimeType.startsWith('image/') && file.bytes <= MAX_INLINE_IMAGE_BYTES) {
+      const { content } = await artifacts.load(client, file.artifactId);
+      blocks.push({ type: 'image', data: content.toString('base64'), mimeType: file.mimeType });
+    } else {
+      blocks.push({
+        type: 'resource_link',
+        uri: artifactUri(file.artifactId),
+        name: file.name,
+        mimeType: file.mimeType,
+        size: file.bytes,
+      });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Output files as listed in a tool result's JSON
+ */
+export function describeFiles(files?: OutputFile[]) {
+  return files?.map(file => ({
+    name: file.name,
+    mimeType: file.mimeType,
+    bytes: file.bytes,
+    uri: artifactUri(file.artifactId),
+  }));
+}
+
+function isStream(name: string): boolean {
+  return name === 'stdout' || name === 'stderr';
+}
+
+function isText(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    mimeType === 'application/json' ||
+    mimeType === 'application/yaml'
+  );
+}
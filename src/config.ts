@@ -0,0 +1,126 @@
+/**
+ * Server Configuration
+ * Loads the optional JSON config file given by --config or MCP_EXEC_CONFIG
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_JOB_CONFIG,
+  DEFAULT_OUTPUT_CONFIG,
+  DEFAULT_SESSION_QUOTA,
+  ExecutorConfig,
+  JobConfig,
+  OutputConfig,
+  ServerConfig,
+} from './types/index.js';
+
+/**
+ * Resolve the config file path from the command line or environment
+ */
+export function resolveConfigPath(argv: string[] = process.argv): string | undefined {
+  const flagIndex = argv.indexOf('--config');
+  if (flagIndex !== -1 && argv[flagIndex + 1]) {
+    return argv[flagIndex + 1];
+  }
+
+  const inline = argv.find(arg => arg.startsWith('--config='));
+  if (inline) {
+    return inline.slice('--config='.length);
+  }
+
+  return process.env.MCP_EXEC_CONFIG || undefined;
+}
+
+/**
+ * Load the server config; an absent config file means defaults
+ */
+export async function loadServerConfig(configPath = resolveConfigPath()): Promise<ServerConfig> {
+  if (!configPath) {
+    return {};
+  }
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Cannot read config file ${configPath}: ` +
+      (error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  try {
+    return JSON.parse(raw) as ServerConfig;
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in config file ${configPath}: ` +
+      (error instanceof Error ? error.message : String(error))
+    );
+  }
+}
+
+/**
+ * Apply the config file's executor overrides to the defaults.
+ * Policy sections are merged per key so overriding one list keeps the others.
+ */
+export function resolveExecutorConfig(config: ServerConfig): ExecutorConfig {
+  const overrides = config.executor || {};
+
+  return {
+    ...DEFAULT_CONFIG,
+    ...overrides,
+    maxConcurrentPerOwner:
+      config.sessions?.maxConcurrentExecutions ?? DEFAULT_SESSION_QUOTA.maxConcurrentExecutions,
+    policy: {
+      ...DEFAULT_CONFIG.policy,
+      ...overrides.policy,
+      python: {
+        ...DEFAULT_CONFIG.policy.python,
+        ...overrides.policy?.python,
+      },
+    },
+    sandbox: {
+      ...DEFAULT_CONFIG.sandbox,
+      ...overrides.sandbox,
+      readOnlyPaths: resolveReadOnlyPaths(overrides.sandbox?.readOnlyPaths),
+    },
+    network: {
+      ...DEFAULT_CONFIG.network,
+      ...overrides.network,
+    },
+  };
+}
+
+/**
+ * Apply the config file's job settings to the defaults
+ */
+export function resolveJobConfig(config: ServerConfig): JobConfig {
+  return {
+    ...DEFAULT_JOB_CONFIG,
+    ...config.jobs,
+    storeDir: path.resolve(config.jobs?.storeDir || path.join(os.tmpdir(), 'mcp-jobs')),
+  };
+}
+
+/**
+ * Apply the config file's output settings to the defaults
+ */
+export function resolveOutputConfig(config: ServerConfig): OutputConfig {
+  return {
+    ...DEFAULT_OUTPUT_CONFIG,
+    ...config.output,
+    artifactDir: path.resolve(config.output?.artifactDir || path.join(os.tmpdir(), 'mcp-artifacts')),
+  };
+}
+
+/**
+ * Make read-only paths absolute; with none configured, the server's working
+ * directory stays readable so relative paths like examples/ keep working
+ */
+function resolveReadOnlyPaths(paths: string[] = []): string[] {
+  const configured = paths.length > 0 ? paths : ['.'];
+  return configured.map(p => path.resolve(p));
+}
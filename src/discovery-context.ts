@@ -0,0 +1,60 @@
+/**
+ * Discovery Context
+ * Tracks what a session is working on so tool discovery can narrow the tool
+ * list: context set explicitly by the client plus text inferred from the
+ * session's recent tool calls
+ */
+
+const MAX_RECENT_CALLS = 5;
+const MAX_VALUE_LENGTH = 200;
+
+export class DiscoveryContext {
+  private explicit = '';
+  private recentCalls: string[] = [];
+  private advertised?: string;  // Tool names last sent to the client
+
+  /**
+   * Set the client's description of its task; an empty context also
+   * forgets inferred context so every tool is listed again
+   */
+  set(context: string): void {
+    this.explicit = context.trim();
+    if (this.explicit === '') {
+      this.recentCalls = [];
+    }
+  }
+
+  /**
+   * Infer context from a tool call: its name and its string arguments
+   * (file paths, patterns), e.g. "analyze nginx logs /var/log/nginx/access.log"
+   */
+  recordCall(toolName: string, args: Record<string, unknown> = {}): void {
+    const values = Object.entries(args)
+      .filter(([name, value]) => typeof value === 'string' && name !== 'code')
+      .map(([, value]) => (value as string).slice(0, MAX_VALUE_LENGTH));
+
+    this.recentCalls.push([toolName.replace(/_/g, ' '), ...values].join(' '));
+    if (this.recentCalls.length > MAX_RECENT_CALLS) {
+      this.recentCalls.shift();
+    }
+  }
+
+  /**
+   * Context used for discovery
+   */
+  toString(): string {
+    return [this.explicit, ...this.recentCalls].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Remember the tool names sent to the client. Returns whether they differ
+   * from the previous list, i.e. whether the client should refresh; nothing
+   * needs refreshing before the client has listed tools once.
+   */
+  updateAdvertised(toolNames: string[]): boolean {
+    const key = [...toolNames].sort().join(',');
+    const changed = this.advertised !== undefined && this.advertised !== key;
+    this.advertised = key;
+    return changed;
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Artifact Store
+ * Keeps what executions produce beyond their tool result: the full output of
+ * streams that did not fit in it, and the files scripts write to their
+ * output directory. Artifacts expire, and the store has a size bound past
+ * which the oldest are deleted.
+ */
+
+import { constants as fsConstants } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ArtifactRecord, ExecutionResult, OutputConfig, OutputFile } from '../types/index.js';
+
+const CONTENT_SUFFIX = '.out';
+const URI_PREFIX = 'artifact://';
+const DEFAULT_PAGE_SIZE = 100000;
+const MAX_PAGE_SIZE = 1000000;
+// Artifact ids come from clients; only UUIDs can name an artifact file
+const ARTIFACT_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Output as returned in a tool result, with the artifacts holding streams
+ * that were shortened
+ */
+export interface FittedOutput {
+  stdout: string;
+  stderr: string;
+  artifacts?: { stdout?: string; stderr?: string };
+}
+
+/**
+ * Which part of an artifact to return
+ */
+export interface ArtifactPageRequest {
+  offset?: number;  // Bytes to skip
+  limit?: number;   // Bytes to return
+}
+
+export interface ArtifactPage {
+  artifact_id: string;
+  name: string;
+  offset: number;
+  length: number;       // Total bytes in the artifact
+  output: string;
+  nextOffset?: number;  // Offset of the next page, if there is more output
+}
+
+export class ArtifactStore {
+  constructor(private config: OutputConfig) {}
+
+  /**
+   * Create the store directory if needed and delete expired artifacts
+   */
+  async open(): Promise<void> {
+    await fs.mkdir(this.config.artifactDir, { recursive: true, mode: 0o700 });
+    await this.prune();
+  }
+
+  /**
+   * Move the files of an execution's output directory into the store as
+   * artifacts of the owner
+   */
+  async collect(owner: string, dir: string): Promise<OutputFile[]> {
+    const names = await listFiles(dir);
+    if (names.length > this.config.maxFilesPerExecution) {
+      console.error(
+        `Keeping ${this.config.maxFilesPerExecution} of ${names.length} output files for ${owner}`
+      );
+    }
+
+    const files: OutputFile[] = [];
+    for (const name of names.slice(0, this.config.maxFilesPerExecution)) {
+      const source = path.join(dir, name);
+      // Code that is still running could have swapped the file for a symlink since it was listed
+      const stat = await fs.lstat(source).catch(() => undefined);
+      if (!stat?.isFile()) {
+        console.error(`Output file ${name} is not a regular file; not kept`);
+        continue;
+      }
+      if (stat.size > this.config.maxStoreMB * 1024 * 1024) {
+        console.error(`Output file ${name} is larger than the artifact store; not kept`);
+        continue;
+      }
+      try {
+        const record = await this.add(owner, name, stat.size, async (target) => {
+          await fs.rename(source, target).catch(async (error: NodeJS.ErrnoException) => {
+            // The store is on another filesystem
+            if (error.code !== 'EXDEV') {
+              throw error;
+            }
+            // Opened without following a symlink, which copyFile would follow
+            const file = await fs.open(source, fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW);
+            await fs.writeFile(target, file.createReadStream(), { mode: 0o600 });
+          });
+          // Checked again once out of the code's reach, for a swap between lstat and rename
+          if (!(await fs.lstat(target)).isFile()) {
+            await fs.rm(target, { force: true });
+            throw new Error('not a regular file');
+          }
+        });
+        files.push({ artifactId: record.id, name, mimeType: record.mimeType, bytes: stat.size });
+      } catch (error) {
+        console.error(`Output file ${name} not kept:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Keep artifacts until a time, for artifacts that belong to something kept
+   * longer than the retention period, like a job's result
+   */
+  async retain(ids: string[], until: number): Promise<void> {
+    for (const id of ids) {
+      const record = await this.loadRecord(id);
+      // Already deleted by the size bound
+      if (!record) {
+        continue;
+      }
+      record.keepUntil = Math.max(record.keepUntil ?? 0, until);
+      await fs.writeFile(this.recordPath(id), JSON.stringify(record), { mode: 0o600 });
+    }
+  }
+
+  /**
+   * The owner's artifacts, newest first
+   */
+  async list(owner: string): Promise<ArtifactRecord[]> {
+    const records = (await this.loadAll()).filter(record => record.owner === owner);
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * The whole content of one of the owner's artifacts
+   */
+  async load(owner: string, id: string): Promise<{ record: ArtifactRecord; content: Buffer }> {
+    const record = await this.get(owner, id);
+    return { record, content: await fs.readFile(this.contentPath(id)) };
+  }
+
+  /**
+   * Fit stdout and stderr into the return budget. A stream that does not
+   * fit keeps its head and tail around an elision marker, and is saved whole
+   * as an artifact of the owner, unless the execution already kept it whole.
+   */
+  async fit(
+    owner: string,
+    output: Pick<ExecutionResult, 'stdout' | 'stderr' | 'outputArtifacts'>
+  ): Promise<FittedOutput> {
+    const kept = output.outputArtifacts || {};
+    const fitted: FittedOutput = {
+      stdout: output.stdout,
+      stderr: output.stderr,
+      artifacts: kept.stdout || kept.stderr ? { ...kept } : undefined,
+    };
+    const budget = this.config.maxReturnBytes;
+    const stdoutBytes = Buffer.byteLength(output.stdout);
+    const stderrBytes = Buffer.byteLength(output.stderr);
+    if (stdoutBytes + stderrBytes <= budget) {
+      return fitted;
+    }
+
+    // stderr gets up to half the budget, or whatever stdout leaves over
+    const stderrBudget = Math.min(
+      stderrBytes,
+      Math.max(Math.floor(budget / 2), budget - stdoutBytes)
+    );
+    fitted.artifacts ??= {};
+    for (const [name, streamBudget] of [
+      ['stdout', budget - stderrBudget],
+      ['stderr', stderrBudget],
+    ] as const) {
+      const content = Buffer.from(output[name]);
+      if (content.length > streamBudget) {
+        // What the execution kept in memory is the head and tail of the whole stream
+        const whole = kept[name] ? await this.loadRecord(kept[name]!) : undefined;
+        const id = whole?.id ?? await this.save(owner, name, content);
+        fitted[name] = elide(content, streamBudget, id, whole?.bytes ?? content.length);
+        fitted.artifacts[name] = id;
+      }
+    }
+    return fitted;
+  }
+
+  /**
+   * A page of one of the owner's artifacts
+   */
+  async read(owner: string, id: string, page: ArtifactPageRequest = {}): Promise<ArtifactPage> {
+    const record = await this.get(owner, id);
+    const offset = Math.min(Math.max(0, Math.floor(page.offset ?? 0)), record.bytes);
+    const limit = Math.min(Math.max(1, Math.floor(page.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+
+    const file = await fs.open(this.contentPath(id), 'r');
+    let content: Buffer;
+    try {
+      // One byte past the page shows whether the page ends inside a character
+      const buffer = Buffer.alloc(Math.min(limit + 1, record.bytes - offset));
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, offset);
+      content = buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+
+    // A character cut by the page end is left to the next page
+    const pageBytes = content.length > limit ? characterStart(content, limit) || limit : content.length;
+    const end = offset + pageBytes;
+    return {
+      artifact_id: id,
+      name: record.name,
+      offset,
+      length: record.bytes,
+      output: content.subarray(0, pageBytes).toString(),
+      nextOffset: end < record.bytes ? end : undefined,
+    };
+  }
+
+  private async save(owner: string, name: string, content: Buffer): Promise<string> {
+    const record = await this.add(owner, name, content.length, async (target) => {
+      await fs.writeFile(target, content, { mode: 0o600 });
+    });
+    return record.id;
+  }
+
+  /**
+   * Store an artifact whose content the write function puts at the target path
+   */
+  private async add(
+    owner: string,
+    name: string,
+    bytes: number,
+    write: (target: string) => Promise<void>
+  ): Promise<ArtifactRecord> {
+    const record: ArtifactRecord = {
+      id: randomUUID(),
+      owner,
+      name,
+      mimeType: mimeTypeOf(name),
+      bytes,
+      createdAt: Date.now(),
+    };
+    await write(this.contentPath(record.id));
+    // The record is written last, so a listed artifact always has its content
+    await fs.writeFile(this.recordPath(record.id), JSON.stringify(record), { mode: 0o600 });
+    void this.prune();
+    return record;
+  }
+
+  private async get(owner: string, id: string): Promise<ArtifactRecord> {
+    const record = await this.loadRecord(id);
+    // Other clients' artifacts are reported as unknown, not as forbidden
+    if (!record || record.owner !== owner) {
+      throw new Error(`Unknown artifact: ${id}`);
+    }
+    return record;
+  }
+
+  private async loadRecord(id: string): Promise<ArtifactRecord | undefined> {
+    const file = this.recordPath(id);
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as ArtifactRecord;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async loadAll(): Promise<ArtifactRecord[]> {
+    const records: ArtifactRecord[] = [];
+    const names = await fs.readdir(this.config.artifactDir).catch(() => []);
+    for (const name of names) {
+      if (name.endsWith('.json')) {
+        // Files not named by an artifact id are not artifacts
+        const record = await this.loadRecord(name.slice(0, -'.json'.length)).catch(() => undefined);
+        if (record) {
+          records.push(record);
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Delete artifacts older than the retention period, or past the time they
+   * were retained until, then the oldest ones while the store is over its
+   * size bound
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    const cutoff = now - this.config.artifactRetentionMs;
+    let remaining = this.config.maxStoreMB * 1024 * 1024;
+    const records = (await this.loadAll()).sort((a, b) => b.createdAt - a.createdAt);
+    for (const record of records) {
+      remaining -= record.bytes;
+      const expired = record.keepUntil === undefined ? record.createdAt < cutoff : record.keepUntil < now;
+      if (expired || remaining < 0) {
+        await this.remove(record.id);
+      }
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    await fs.rm(this.recordPath(id), { force: true });
+    await fs.rm(this.contentPath(id), { force: true });
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.config.artifactDir, `${checkId(id)}.json`);
+  }
+
+  private contentPath(id: string): string {
+    return path.join(this.config.artifactDir, `${checkId(id)}${CONTENT_SUFFIX}`);
+  }
+}
+
+/**
+ * Resource URI of an artifact, as listed through MCP resources
+ */
+export function artifactUri(id: string): string {
+  return URI_PREFIX + id;
+}
+
+/**
+ * Artifact id named by a resource URI
+ */
+export function parseArtifactUri(uri: string): string {
+  if (!uri.startsWith(URI_PREFIX)) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  return uri.slice(URI_PREFIX.length);
+}
+
+function checkId(id: string): string {
+  if (!ARTIFACT_ID.test(id)) {
+    throw new Error(`Unknown artifact: ${id}`);
+  }
+  return id;
+}
+
+/**
+ * Keep the head and tail of content within a byte budget, cut at line
+ * breaks where one is near, with a marker naming what was left out
+ */
+function elide(content: Buffer, budget: number, artifactId: string, totalBytes: number): string {
+  let headEnd = characterStart(content, Math.floor(budget / 2));
+  const headBreak = content.lastIndexOf(0x0a, headEnd - 1);
+  if (headBreak >= headEnd / 2) {
+    headEnd = headBreak + 1;
+  }
+
+  let tailStart = characterStart(content, content.length - (budget - Math.floor(budget / 2)));
+  const tailBreak = content.indexOf(0x0a, tailStart);
+  if (tailBreak !== -1 && tailBreak < tailStart + (content.length - tailStart) / 2) {
+    tailStart = tailBreak + 1;
+  }
+
+  tailStart = Math.max(tailStart, headEnd);
+
+  const head = content.subarray(0, headEnd).toString();
+  const elided = totalBytes - headEnd - (content.length - tailStart);
+  return (
+    head +
+    (head === '' || head.endsWith('\n') ? '' : '\n') +
+    `[... ${elided} bytes elided; full output in artifact ${artifactId} ...]\n` +
+    content.subarray(tailStart).toString()
+  );
+}
+
+/**
+ * Move an offset back to the start of the UTF-8 character it falls in
+ */
+function characterStart(content: Buffer, offset: number): number {
+  while (offset > 0 && offset < content.length && (content[offset] & 0xc0) === 0x80) {
+    offset--;
+  }
+  return offset;
+}
+
+/**
+ * Files under a directory, as paths relative to it; symlinks are skipped so
+ * nothing outside the directory is collected. Walked by hand: recursive
+ * readdir needs a newer Node.js than the server supports.
+ */
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const name = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(dir, name));
+    } else if (entry.isFile()) {
+      files.push(name);
+    }
+  }
+  return files.sort();
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.pdf': 'application/pdf',
+};
+
+function mimeTypeOf(name: string): string {
+  if (name === 'stdout' || name === 'stderr') {
+    return 'text/plain';
+  }
+  return MIME_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
@@ -0,0 +1,731 @@
+/**
+ * Base Code Executor
+ * Shared subprocess handling for all language executors: temp-dir isolation,
+ * timeout, output size and OS resource limits
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import {
+  CodeExecutor,
+  ExecutionListener,
+  ExecutionRequest,
+  ExecutionResult,
+  ExecutionStatus,
+  ExecutorConfig,
+  NetworkPolicy,
+  PolicyFinding,
+  RuntimeDefinition,
+  ScriptRequest,
+  DEFAULT_CONFIG,
+} from '../types/index.js';
+import { createWriteStream, WriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  buildLimitedCommand,
+  createCgroup,
+  describeLimit,
+  detectLimitExceeded,
+  releaseCgroup,
+} from './resource-limits.js';
+import { checkShellPolicy } from './shell-policy.js';
+import { Sandbox, narrowReadPaths } from './sandbox.js';
+import { explainNetworkFailure, narrowNetworkPolicy } from './network-policy.js';
+import { ProgressParser } from './progress.js';
+import { UsageSampler } from './process-usage.js';
+
+// Written next to the script; its path is passed in MCP_INPUTS_FILE
+const INPUTS_FILE = 'inputs.json';
+// In the scratch directory; its path is passed in MCP_OUTPUT_DIR
+const OUTPUT_DIR = 'output';
+// Where the code may write its result as JSON; its path is passed in MCP_RESULT_FILE
+const RESULT_FILE = 'result.json';
+
+/**
+ * Per-execution settings resolved from the request
+ */
+export interface ProcessOptions {
+  timeout: number;
+  workingDir: string;
+  readPaths?: string[];
+  extraReadPaths: string[];
+  network: NetworkPolicy;
+  inputsPath?: string;
+  outputDir?: string;
+  resultPath?: string;
+  streamDir?: string;  // Where the whole stdout and stderr are written, out of the code's reach
+  workspace?: string;
+  listener?: ExecutionListener;
+  signal?: AbortSignal;
+}
+
+/**
+ * Sandboxed, resource-limited command line ready to spawn
+ */
+export interface PreparedProcess {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  cgroupDir?: string;
+}
+
+/**
+ * How a runtime enforces network policies beyond namespace isolation
+ */
+export interface NetworkGuard {
+  env: Record<string, string>;
+  readPaths: string[];   // Files the guard needs inside the sandbox
+}
+
+export abstract class BaseExecutor implements CodeExecutor {
+  /**
+   * Runtime describing the interpreter, command line and environment
+   */
+  protected abstract readonly runtime: RuntimeDefinition;
+
+  constructor(
+    protected config: ExecutorConfig = DEFAULT_CONFIG,
+    protected sandbox: Sandbox = new Sandbox(config.sandbox)
+  ) {}
+
+  /**
+   * Arguments passed to the interpreter for a given script path
+   */
+  protected buildArgs(scriptPath: string): string[] {
+    const args = this.runtime.args || ['{script}'];
+    return args.map(arg => arg
+      .replace('{script}', scriptPath)
+      .replace('{memoryMB}', String(this.config.maxMemoryMB)));
+  }
+
+  /**
+   * Extra environment variables for the interpreter
+   */
+  protected buildEnv(): Record<string, string> {
+    return this.runtime.env || {};
+  }
+
+  /**
+   * In-process enforcement of a network policy, for runtimes that support it.
+   * Runtimes without a guard can only run with mode 'none' (via a network
+   * namespace) or 'unrestricted'.
+   */
+  protected networkGuard(_policy: NetworkPolicy): NetworkGuard | undefined {
+    return undefined;
+  }
+
+  /**
+   * Validate code for basic security checks
+   */
+  protected validateCode(code: string): void {
+    // Basic length check
+    if (code.length > 100000) {
+      throw new Error('Code too large: Maximum 100KB allowed');
+    }
+  }
+
+  /**
+   * Inputs must be a JSON object so scripts can rely on its shape
+   */
+  protected validateInputs(inputs: unknown): void {
+    if (inputs !== undefined &&
+        (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs))) {
+      throw new Error('Invalid inputs: expected a JSON object');
+    }
+  }
+
+  /**
+   * Check code against the execution policy. Shell command words mean
+   * nothing in other languages (`.format(` is not `format`), so only
+   * runtimes declared with shellPolicy are checked here; Python and Bash
+   * executors override this.
+   */
+  protected async checkPolicy(code: string): Promise<PolicyFinding[]> {
+    return this.runtime.shellPolicy ? checkShellPolicy(code, this.config.policy) : [];
+  }
+
+  /**
+   * Execute code with timeout and resource limits
+   */
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const startTime = Date.now();
+
+    const rejected = await this.screenCode(request.code, startTime);
+    if (rejected) {
+      return rejected;
+    }
+
+    return await this.run(request, startTime, { code: request.code });
+  }
+
+  /**
+   * Validate submitted code and check it against the policy.
+   * Returns the result to report when the code is rejected.
+   */
+  protected async screenCode(code: string, startTime: number): Promise<ExecutionResult | undefined> {
+    try {
+      this.validateCode(code);
+    } catch (error) {
+      return failure(error, startTime, 'policy_violation');
+    }
+
+    try {
+      const findings = await this.checkPolicy(code);
+      if (findings.length > 0) {
+        return policyViolation(findings, Date.now() - startTime);
+      }
+    } catch (error) {
+      // The policy checker itself failed
+      return failure(error, startTime, 'spawn_error');
+    }
+    return undefined;
+  }
+
+  /**
+   * Run a server-owned script in place. It gets the same sandbox and limits
+   * as submitted code but skips the code policy.
+   */
+  async runScript(request: ScriptRequest): Promise<ExecutionResult> {
+    return await this.run(request, Date.now(), { scriptPath: request.scriptPath });
+  }
+
+  /**
+   * Run submitted code (written to a scratch dir) or an existing script file
+   */
+  private async run(
+    request: Omit<ExecutionRequest, 'code'>,
+    startTime: number,
+    source: { code: string } | { scriptPath: string }
+  ): Promise<ExecutionResult> {
+    const timeout = Math.min(
+      request.timeout || this.config.maxTimeout,
+      this.config.maxTimeout
+    );
+
+    if (request.signal?.aborted) {
+      return cancelledBeforeStart(startTime);
+    }
+
+    let readPaths: string[] | undefined;
+    let network: NetworkPolicy;
+    try {
+      this.validateInputs(request.inputs);
+
+      // Per-call read paths and network policy may only narrow the configured ones
+      readPaths = request.readPaths
+        ? await narrowReadPaths(request.readPaths, this.sandbox.getReadOnlyPaths())
+        : undefined;
+      network = narrowNetworkPolicy(this.config.network, request.network);
+    } catch (error) {
+      return failure(error, startTime, 'policy_violation');
+    }
+
+    try {
+      // Scratch directory: the working dir and HOME, and where submitted code is written
+      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-exec-'));
+      const streamDir = `${tmpDir}-streams`;
+      try {
+        await fs.mkdir(streamDir, { mode: 0o700 });
+        let scriptPath: string;
+        const extraReadPaths: string[] = [];
+        if ('code' in source) {
+          scriptPath = path.join(tmpDir, `script${this.runtime.extension}`);
+          await fs.writeFile(scriptPath, source.code, 'utf-8');
+        } else {
+          // Server scripts may import helpers from their own directory
+          scriptPath = source.scriptPath;
+          extraReadPaths.push(path.dirname(scriptPath));
+        }
+
+        // Arguments travel as data, never spliced into the source
+        const inputsPath = path.join(tmpDir, INPUTS_FILE);
+        await fs.writeFile(inputsPath, JSON.stringify(request.inputs || {}), 'utf-8');
+
+        // Files written here outlive the scratch directory when the caller collects them
+        const outputDir = path.join(tmpDir, OUTPUT_DIR);
+        await fs.mkdir(outputDir);
+        const resultPath = path.join(tmpDir, RESULT_FILE);
+
+        // Execute the interpreter with resource limits
+        const result = await this.executeProcess(scriptPath, {
+          timeout,
+          workingDir: tmpDir,
+          readPaths,
+          extraReadPaths,
+          network,
+          inputsPath,
+          outputDir,
+          resultPath,
+          streamDir,
+          workspace: request.workspace,
+          listener: request.listener,
+          signal: request.signal,
+        });
+
+        // Losing the files does not lose the result
+        const files = await request.collectOutput?.(outputDir).catch((error) => {
+          console.error('Output files were not kept:', error);
+          return undefined;
+        });
+        // Streams longer than kept in memory are left in the stream dir
+        const streams = await request.collectOutput?.(streamDir).catch((error) => {
+          console.error('Full output was not kept:', error);
+          return undefined;
+        });
+        const structured = await readStructuredResult(resultPath, this.config.maxOutputMB);
+        return {
+          ...result,
+          stderr: structured.problem ? `${result.stderr}\n${structured.problem}` : result.stderr,
+          executionTime: Date.now() - startTime,
+          outputArtifacts: streams?.length
+            ? Object.fromEntries(streams.map(file => [file.name, file.artifactId]))
+            : undefined,
+          files: files?.length ? files : undefined,
+          structured: structured.value,
+          sandbox: this.sandboxNotice(),
+        };
+      } finally {
+        // Cleanup
+        await fs.rm(tmpDir, { recursive: true, force: true });
+        await fs.rm(streamDir, { recursive: true, force: true });
+      }
+    } catch (error) {
+      return failure(error, startTime, 'spawn_error');
+    }
+  }
+
+  /**
+   * Execute the interpreter process
+   */
+  private async executeProcess(
+    scriptPath: string,
+    options: ProcessOptions
+  ): Promise<Omit<ExecutionResult, 'executionTime'>> {
+    const prepared = await this.prepareProcess(scriptPath, options);
+    const spawned = await this.spawnProcess(prepared, options);
+
+    // cgroup events and accounting are authoritative for memory and process limits
+    const cgroup = prepared.cgroupDir ? await releaseCgroup(prepared.cgroupDir) : {};
+    const result = { ...spawned, usage: cgroup.usage || spawned.usage };
+    if (result.status === 'cancelled') {
+      return result;
+    }
+    const limitExceeded = cgroup.limitExceeded || result.limitExceeded;
+    if (limitExceeded) {
+      const message = `Resource limit: ${describeLimit(limitExceeded, this.config)}`;
+      return {
+        ...result,
+        success: false,
+        stderr: result.stderr + '\n' + message,
+        error: message,
+        limitExceeded,
+      };
+    }
+
+    const networkMessage = result.success
+      ? undefined
+      : explainNetworkFailure(options.network, result.stderr);
+    if (networkMessage) {
+      return {
+        ...result,
+        stderr: result.stderr + '\n' + networkMessage,
+        error: networkMessage,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Result note for code that ran without filesystem isolation
+   */
+  protected sandboxNotice(): string | undefined {
+    const reason = this.sandbox.inactiveReason();
+    return reason && `inactive (${reason}): the code ran without filesystem isolation`;
+  }
+
+  /**
+   * Wrap the interpreter in the sandbox, network enforcement and resource
+   * limits. The caller releases the returned cgroup once the process exits.
+   */
+  protected async prepareProcess(
+    scriptPath: string,
+    options: Omit<ProcessOptions, 'timeout'>,
+    limits: ExecutorConfig = this.config
+  ): Promise<PreparedProcess> {
+    const { network } = options;
+    const guard = network.mode === 'unrestricted' ? undefined : this.networkGuard(network);
+    const isolateNetwork = network.mode === 'none' && this.sandbox.canIsolateNetwork();
+
+    // Fail closed when neither a namespace nor the runtime can enforce the policy
+    if (network.mode !== 'unrestricted' && !guard && !isolateNetwork) {
+      throw new Error(
+        `Network mode '${network.mode}' cannot be enforced for ${this.runtime.language}` +
+        (network.mode === 'none'
+          ? ' (network namespaces are unavailable on this host)'
+          : '; only Python supports loopback-only/allowlist, use mode "none"')
+      );
+    }
+
+    const sandboxed = await this.sandbox.wrap(
+      this.runtime.command,
+      this.buildArgs(scriptPath),
+      {
+        scratchDir: options.workingDir,
+        readPaths: options.readPaths,
+        extraReadPaths: [...options.extraReadPaths, ...(guard?.readPaths || [])],
+        writablePaths: options.workspace ? [options.workspace] : [],
+        isolateNetwork,
+      }
+    );
+
+    const cgroupDir = await createCgroup(limits);
+    const limited = buildLimitedCommand(
+      sandboxed.command,
+      sandboxed.args,
+      limits,
+      this.runtime,
+      cgroupDir
+    );
+
+    const env: NodeJS.ProcessEnv = { ...process.env, ...this.buildEnv(), ...guard?.env };
+    if (guard && isolateNetwork) {
+      // The namespace covers child processes, so the guard need not refuse to start them
+      env.MCP_NETWORK_NAMESPACE = '1';
+    }
+    if (options.inputsPath) {
+      env.MCP_INPUTS_FILE = options.inputsPath;
+    }
+    if (options.outputDir) {
+      env.MCP_OUTPUT_DIR = options.outputDir;
+    }
+    if (options.resultPath) {
+      env.MCP_RESULT_FILE = options.resultPath;
+    }
+    if (options.workspace) {
+      env.MCP_WORKSPACE = options.workspace;
+    }
+
+    return { ...limited, env, cgroupDir };
+  }
+
+  /**
+   * Spawn the prepared interpreter and collect its output
+   */
+  private spawnProcess(
+    prepared: PreparedProcess,
+    options: ProcessOptions
+  ): Promise<Omit<ExecutionResult, 'executionTime'>> {
+    const { timeout, workingDir, listener, signal, streamDir } = options;
+
+    return new Promise((resolve) => {
+      const maxMemory = this.config.maxOutputMB * 1024 * 1024;
+      const maxStream = this.config.maxFileSizeMB * 1024 * 1024;
+      const stdout = new CapturedStream(maxMemory, streamDir && path.join(streamDir, 'stdout'));
+      const stderr = new CapturedStream(maxMemory, streamDir && path.join(streamDir, 'stderr'));
+      // Why the server killed the process, if it did
+      let killedFor: 'timeout' | 'output_limit' | 'cancelled' | undefined;
+
+      // Progress sentinel lines become events instead of output
+      const progress = new ProgressParser(
+        (text) => {
+          capture(stdout, text);
+          listener?.({ type: 'output', stream: 'stdout', text });
+        },
+        (event) => listener?.(event)
+      );
+
+      // Spawn interpreter process in its own process group, so the whole
+      // tree (including anything it spawned) can be killed at once
+      const proc = spawn(prepared.command, prepared.args, {
+        cwd: workingDir,
+        env: prepared.env,
+        detached: true,
+      });
+      let exited = false;
+      const killGroup = (signal: NodeJS.Signals) => killProcessGroup(proc, signal);
+      const sampler = proc.pid === undefined ? undefined : new UsageSampler(proc.pid);
+      sampler?.start();
+
+      // Memory keeps the head and tail of each stream; a stream past the
+      // largest file a script may write is not kept whole, and ends the process
+      const capture = (stream: CapturedStream, text: string) => {
+        if (stream.push(text) > maxStream) {
+          killGroup('SIGKILL');
+          killedFor ??= 'output_limit';
+        }
+      };
+
+      // Capture stdout
+      proc.stdout.on('data', (data) => {
+        progress.push(data.toString());
+      });
+
+      // Capture stderr
+      proc.stderr.on('data', (data) => {
+        const text = data.toString();
+        capture(stderr, text);
+        listener?.({ type: 'output', stream: 'stderr', text });
+      });
+
+      // Handle timeout
+      const timer = setTimeout(() => {
+        killGroup('SIGTERM');
+        killedFor ??= 'timeout';
+        setTimeout(() => {
+          if (!exited) {
+            killGroup('SIGKILL');
+          }
+        }, 1000).unref();
+      }, timeout);
+
+      // Handle cancellation by the client
+      const onAbort = () => {
+        killGroup('SIGKILL');
+        killedFor ??= 'cancelled';
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Handle process exit
+      proc.on('close', async (code, exitSignal) => {
+        exited = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        progress.flush();
+        // Children left running in the background go with the script
+        killGroup('SIGKILL');
+        await Promise.all([stdout.close(), stderr.close()]);
+
+        const ended = {
+          stdout: stdout.text(),
+          exitCode: code ?? -1,
+          signal: terminationSignal(code, exitSignal),
+          usage: await sampler?.stop(),
+        };
+        if (killedFor) {
+          const error = {
+            cancelled: 'Execution cancelled',
+            timeout: `Execution timeout exceeded (${timeout} ms)`,
+            output_limit: `Output limit exceeded (${this.config.maxFileSizeMB} MB per stream)`,
+          }[killedFor];
+          resolve({
+            ...ended,
+            success: false,
+            status: killedFor,
+            stderr: stderr.text() + '\n' + error,
+            error,
+          });
+        } else {
+          resolve({
+            ...ended,
+            success: code === 0,
+            status: code === 0 ? 'ok' : ended.signal ? 'signal' : 'nonzero_exit',
+            stderr: stderr.text(),
+            limitExceeded: code === 0 ? undefined : detectLimitExceeded(exitSignal, stderr.text()),
+          });
+        }
+      });
+
+      // Handle errors
+      proc.on('error', async (error) => {
+        exited = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        await Promise.all([sampler?.stop(), stdout.close(), stderr.close()]);
+        resolve({
+          success: false,
+          status: 'spawn_error',
+          stdout: stdout.text(),
+          stderr: stderr.text() + '\n' + error.message,
+          exitCode: -1,
+          error: error.message,
+        });
+      });
+    });
+  }
+}
+
+/**
+ * One output stream of a process. Memory keeps its head and tail; the whole
+ * stream goes to a file, which is removed again when the stream fit in memory.
+ */
+class CapturedStream {
+  private head = '';
+  private tail: string[] = [];
+  private tailLength = 0;
+  private dropped = false;  // Whether output between head and tail was left out
+  private bytes = 0;
+  private file?: WriteStream;
+  private closed?: Promise<void>;
+
+  constructor(private maxMemory: number, private filePath?: string) {
+    if (filePath) {
+      this.file = createWriteStream(filePath, { mode: 0o600 });
+      // A stream that cannot be kept whole still returns its head and tail
+      this.file.on('error', (error) => console.error('Output could not be written to disk:', error));
+    }
+  }
+
+  /**
+   * Add output; returns the bytes written to the stream so far
+   */
+  push(text: string): number {
+    this.bytes += Buffer.byteLength(text);
+    this.file?.write(text);
+
+    const room = Math.floor(this.maxMemory / 2) - this.head.length;
+    if (room > 0) {
+      this.head += text.slice(0, room);
+      text = text.slice(room);
+    }
+    if (text) {
+      this.tail.push(text);
+      this.tailLength += text.length;
+      while (this.tailLength - this.tail[0].length >= this.tailLimit()) {
+        this.tailLength -= this.tail.shift()!.length;
+        this.dropped = true;
+      }
+    }
+    return this.bytes;
+  }
+
+  /**
+   * The stream, or its head and tail around a marker naming what was left out
+   */
+  text(): string {
+    const tail = this.tail.join('');
+    if (!this.overflowed()) {
+      return this.head + tail;
+    }
+    const kept = tail.slice(-this.tailLimit());
+    const elided = this.bytes - Buffer.byteLength(this.head) - Buffer.byteLength(kept);
+    return (
+      this.head +
+      (this.head.endsWith('\n') ? '' : '\n') +
+      `[... ${elided} bytes elided ...]\n` +
+      kept
+    );
+  }
+
+  /**
+   * Finish the file; it is kept only when the stream did not fit in memory
+   */
+  close(): Promise<void> {
+    this.closed ??= new Promise<void>((resolve) => {
+      if (!this.file) {
+        resolve();
+        return;
+      }
+      this.file.end(() => resolve());
+      this.file.once('error', () => resolve());
+    }).then(async () => {
+      if (this.filePath && !this.overflowed()) {
+        await fs.rm(this.filePath, { force: true });
+      }
+    });
+    return this.closed;
+  }
+
+  private overflowed(): boolean {
+    return this.dropped || this.tailLength > this.tailLimit();
+  }
+
+  private tailLimit(): number {
+    return this.maxMemory - Math.floor(this.maxMemory / 2);
+  }
+}
+
+/**
+ * Build the result for code rejected by policy
+ */
+function policyViolation(findings: PolicyFinding[], executionTime: number): ExecutionResult {
+  const details = findings
+    .map(f => `  line ${f.line}, column ${f.column}: ${f.message} [${f.rule}]`)
+    .join('\n');
+  const error = `Security violation: ${findings.length} policy finding(s)`;
+
+  return {
+    success: false,
+    status: 'policy_violation',
+    stdout: '',
+    stderr: `${error}\n${details}`,
+    exitCode: -1,
+    executionTime,
+    error,
+    findings,
+  };
+}
+
+/**
+ * Build the result for an execution that could not be started
+ */
+function failure(error: unknown, startTime: number, status: ExecutionStatus): ExecutionResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    success: false,
+    status,
+    stdout: '',
+    stderr: message,
+    exitCode: -1,
+    executionTime: Date.now() - startTime,
+    error: message,
+  };
+}
+
+/**
+ * Build the result for an execution cancelled before it started
+ */
+function cancelledBeforeStart(startTime: number): ExecutionResult {
+  return failure(new Error('Execution cancelled'), startTime, 'cancelled');
+}
+
+/**
+ * Read the JSON the code wrote to MCP_RESULT_FILE; no file means no
+ * structured result, a file that cannot be used is reported as a problem
+ */
+async function readStructuredResult(
+  file: string,
+  maxMB: number
+): Promise<{ value?: unknown; problem?: string }> {
+  try {
+    const { size } = await fs.stat(file);
+    if (size > maxMB * 1024 * 1024) {
+      return { problem: `MCP_RESULT_FILE is larger than ${maxMB} MB; result ignored` };
+    }
+    return { value: JSON.parse(await fs.readFile(file, 'utf-8')) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    return { problem: `MCP_RESULT_FILE does not hold JSON: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Signal that ended a process: reported directly, or as exit code 128 + n by
+ * the sandbox or a shell whose child was killed
+ */
+function terminationSignal(code: number | null, signal: NodeJS.Signals | null): string | undefined {
+  if (signal) {
+    return signal;
+  }
+  if (code !== null && code > 128) {
+    return Object.entries(os.constants.signals).find(([, number]) => number === code - 128)?.[0];
+  }
+  return undefined;
+}
+
+/**
+ * Signal every process in a detached child's process group
+ */
+export function killProcessGroup(proc: ChildProcess, signal: NodeJS.Signals): void {
+  if (proc.pid === undefined) {
+    return;
+  }
+  try {
+    process.kill(-proc.pid, signal);
+  } catch {
+    // The group is already gone
+  }
+}
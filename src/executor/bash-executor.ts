@@ -0,0 +1,28 @@
+/**
+ * Bash Code Executor
+ * Executes shell scripts (grep/awk/jq pipelines) with the same timeout,
+ * output cap and temp-dir isolation as the Python executor
+ */
+
+import { ExecutorConfig, PolicyFinding, RuntimeDefinition } from '../types/index.js';
+import { BaseExecutor } from './base-executor.js';
+import { Sandbox } from './sandbox.js';
+import { BASH_RUNTIME } from './runtimes.js';
+import { checkShellPolicy } from './shell-policy.js';
+
+export class BashExecutor extends BaseExecutor {
+  constructor(
+    protected readonly runtime: RuntimeDefinition = BASH_RUNTIME,
+    config?: ExecutorConfig,
+    sandbox?: Sandbox
+  ) {
+    super(config, sandbox);
+  }
+
+  /**
+   * Match blocked/allowed commands against the script's command words
+   */
+  protected async checkPolicy(code: string): Promise<PolicyFinding[]> {
+    return checkShellPolicy(code, this.config.policy);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Execution Queue
+ * Bounds how many executions run at once, in total and per client session.
+ * Waiting executions are served in arrival order, except that a free slot
+ * goes to the client session with the fewest executions running, so one busy
+ * session cannot starve the others.
+ */
+
+interface Waiter {
+  owner: string;
+  grant: () => void;
+}
+
+export class ExecutionQueue {
+  private waiting: Waiter[] = [];
+  private running: Map<string, number> = new Map();  // Per owner
+  private runningTotal = 0;
+
+  constructor(
+    private maxConcurrent: number,
+    private maxQueued: number,
+    private maxPerOwner = Infinity
+  ) {}
+
+  /**
+   * Wait for a slot and return the function that frees it. An owner already
+   * running its limit waits like everyone else. Throws when the queue is
+   * full, or when the signal aborts while waiting.
+   */
+  async acquire(owner = '', signal?: AbortSignal): Promise<() => void> {
+    // Waiters that could start have been granted a slot already
+    if (this.canStart(owner)) {
+      return this.start(owner);
+    }
+    if (this.waiting.length >= this.maxQueued) {
+      throw new Error(
+        `Server busy: ${this.runningTotal} executions running and ${this.waiting.length} waiting; ` +
+        'try again later'
+      );
+    }
+
+    return await new Promise<() => void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(queued => queued !== waiter);
+        reject(new Error('Execution cancelled'));
+      };
+      const waiter: Waiter = {
+        owner,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.start(owner));
+        },
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private start(owner: string): () => void {
+    this.runningTotal++;
+    this.running.set(owner, (this.running.get(owner) || 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.runningTotal--;
+      const count = this.running.get(owner)! - 1;
+      if (count === 0) {
+        this.running.delete(owner);
+      } else {
+        this.running.set(owner, count);
+      }
+      this.grantNext();
+    };
+  }
+
+  /**
+   * Give free slots to the earliest waiters of the least busy owners,
+   * skipping owners at their limit
+   */
+  private grantNext(): void {
+    while (this.runningTotal < this.maxConcurrent) {
+      let next = -1;
+      for (let i = 0; i < this.waiting.length; i++) {
+        const count = this.runningCount(this.waiting[i].owner);
+        if (count < this.maxPerOwner && (next === -1 || count < this.runningCount(this.waiting[next].owner))) {
+          next = i;
+        }
+      }
+      if (next === -1) {
+        return;
+      }
+      const [waiter] = this.waiting.splice(next, 1);
+      waiter.grant();
+    }
+  }
+
+  private canStart(owner: string): boolean {
+    return this.runningTotal < this.maxConcurrent && this.runningCount(owner) < this.maxPerOwner;
+  }
+
+  private runningCount(owner: string): number {
+    return this.running.get(owner) || 0;
+  }
+}
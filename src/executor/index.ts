@@ -0,0 +1,230 @@
+/**
+ * Executor Dispatcher
+ * Routes execution requests to the executor for the requested language
+ */
+
+import {
+  CodeExecutor,
+  DetectedRuntime,
+  ExecutionLanguage,
+  ExecutionRequest,
+  ExecutionResult,
+  ExecutorConfig,
+  NetworkPolicy,
+  RuntimeDefinition,
+  ScriptRequest,
+  DEFAULT_CONFIG,
+} from '../types/index.js';
+import { PythonExecutor } from './python-executor.js';
+import { PythonKernel } from './python-kernel.js';
+import { BashExecutor } from './bash-executor.js';
+import { ExecutionQueue } from './execution-queue.js';
+import { RuntimeExecutor } from './runtime-executor.js';
+import { RuntimeRegistry } from './runtime-registry.js';
+import { Sandbox } from './sandbox.js';
+
+export class ExecutorDispatcher implements CodeExecutor {
+  private runtimes: RuntimeRegistry;
+  private sandbox: Sandbox;
+  private executors: Map<ExecutionLanguage, CodeExecutor> = new Map();
+  private queue: ExecutionQueue;
+
+  constructor(
+    configuredRuntimes: RuntimeDefinition[] = [],
+    private config: ExecutorConfig = DEFAULT_CONFIG
+  ) {
+    this.runtimes = new RuntimeRegistry(configuredRuntimes);
+    this.sandbox = new Sandbox(config.sandbox);
+    this.queue = new ExecutionQueue(config.maxConcurrent, config.maxQueued, config.maxConcurrentPerOwner);
+  }
+
+  /**
+   * Detect installed runtimes and the sandbox, and create an executor for each runtime
+   */
+  async initialize(): Promise<DetectedRuntime[]> {
+    const detected = await this.runtimes.detect();
+    await this.sandbox.initialize();
+
+    this.executors.clear();
+    for (const { definition } of detected) {
+      this.executors.set(
+        definition.language,
+        createExecutor(definition, this.config, this.sandbox)
+      );
+    }
+
+    return detected;
+  }
+
+  /**
+   * Languages that have a registered executor
+   */
+  getSupportedLanguages(): ExecutionLanguage[] {
+    return Array.from(this.executors.keys());
+  }
+
+  /**
+   * Human-readable list of languages and interpreter versions for tool schemas
+   */
+  describeLanguages(): string {
+    const runtimes = this.runtimes.getDetected()
+      .map(r => `${r.definition.language} (${r.version})`);
+    return `Programming language: ${runtimes.join(', ')}`;
+  }
+
+  /**
+   * Runtimes detected on this host
+   */
+  getDetectedRuntimes(): DetectedRuntime[] {
+    return this.runtimes.getDetected();
+  }
+
+  /**
+   * Sandbox shared by all executors
+   */
+  getSandbox(): Sandbox {
+    return this.sandbox;
+  }
+
+  /**
+   * Server-wide network policy; requests may only narrow it
+   */
+  getNetworkPolicy(): NetworkPolicy {
+    return this.config.network;
+  }
+
+  /**
+   * Longest execution a request may ask for
+   */
+  getMaxTimeout(): number {
+    return this.config.maxTimeout;
+  }
+
+  /**
+   * Dispatcher for the same runtimes and sandbox with other limits, e.g. the
+   * longer timeout of background jobs. It shares this dispatcher's
+   * execution queue. Call after initialize().
+   */
+  withLimits(limits: Partial<ExecutorConfig>): ExecutorDispatcher {
+    const dispatcher = new ExecutorDispatcher([], { ...this.config, ...limits });
+    dispatcher.runtimes = this.runtimes;
+    dispatcher.sandbox = this.sandbox;
+    dispatcher.queue = this.queue;
+    for (const { definition } of this.runtimes.getDetected()) {
+      dispatcher.executors.set(
+        definition.language,
+        createExecutor(definition, dispatcher.config, this.sandbox)
+      );
+    }
+    return dispatcher;
+  }
+
+  /**
+   * Check whether a language has a registered executor
+   */
+  supports(language: string): boolean {
+    return this.executors.has(language);
+  }
+
+  /**
+   * Execute a request with the executor matching its language, once an
+   * execution slot is free
+   */
+  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+    const executor = this.getExecutor(request.language);
+    return await this.whenSlotFree(request, () => executor.execute(request));
+  }
+
+  /**
+   * Run a server-owned script with the executor for its language, once an
+   * execution slot is free
+   */
+  async runScript(request: ScriptRequest): Promise<ExecutionResult> {
+    const executor = this.getExecutor(request.language);
+    return await this.whenSlotFree(request, () => executor.runScript(request));
+  }
+
+  /**
+   * Run code in a persistent Python session, once an execution slot is free
+   */
+  async executeInKernel(
+    kernel: PythonKernel,
+    code: string,
+    timeout: number | undefined,
+    control: Pick<ExecutionRequest, 'owner' | 'signal'>
+  ): Promise<ExecutionResult> {
+    const executor = this.getPythonExecutor();
+    return await this.whenSlotFree(control, () => executor.executeInKernel(kernel, code, timeout, control.signal));
+  }
+
+  /**
+   * Python executor, which also runs persistent sessions
+   */
+  getPythonExecutor(): PythonExecutor {
+    return this.getExecutor('python') as PythonExecutor;
+  }
+
+  /**
+   * Run an execution in a slot of the queue; a full queue or a cancel while
+   * waiting gives a result instead of running it
+   */
+  private async whenSlotFree(
+    request: Pick<ExecutionRequest, 'owner' | 'signal'>,
+    run: () => Promise<ExecutionResult>
+  ): Promise<ExecutionResult> {
+    const queuedAt = Date.now();
+    let release: () => void;
+    try {
+      release = await this.queue.acquire(request.owner, request.signal);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        status: request.signal?.aborted ? 'cancelled' : 'busy',
+        stdout: '',
+        stderr: message,
+        exitCode: -1,
+        executionTime: 0,
+        queueTime: Date.now() - queuedAt,
+        error: message,
+      };
+    }
+
+    const queueTime = Date.now() - queuedAt;
+    try {
+      return { ...await run(), queueTime };
+    } finally {
+      release();
+    }
+  }
+
+  private getExecutor(language: ExecutionLanguage): CodeExecutor {
+    const executor = this.executors.get(language);
+    if (!executor) {
+      throw new Error(
+        `Unsupported language: ${language}. ` +
+        `Supported: ${this.getSupportedLanguages().join(', ')}`
+      );
+    }
+    return executor;
+  }
+}
+
+/**
+ * Pick the executor class for a runtime; languages with dedicated
+ * executors keep them even when their interpreter is overridden in config
+ */
+function createExecutor(
+  definition: RuntimeDefinition,
+  config: ExecutorConfig,
+  sandbox: Sandbox
+): CodeExecutor {
+  switch (definition.language) {
+    case 'python':
+      return new PythonExecutor(definition, config, sandbox);
+    case 'bash':
+      return new BashExecutor(definition, config, sandbox);
+    default:
+      return new RuntimeExecutor(definition, config, sandbox);
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Job Manager
+ * Runs long analyses in the background on a bounded pool of workers. Jobs
+ * and their results live in the job store, so a client can collect them
+ * after reconnecting, also from another server process.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ExecutionEvent,
+  ExecutionResult,
+  ExecutionStatus,
+  JobConfig,
+  JobRecord,
+  JobRequest,
+  JobStatus,
+} from '../types/index.js';
+import { ArtifactStore } from './artifact-store.js';
+import { ExecutorDispatcher } from './index.js';
+import { JobStore } from './job-store.js';
+
+// How often a running job looks for a cancel sent through another server process
+const CANCEL_POLL_MS = 2000;
+const DEFAULT_PAGE_SIZE = 100000;
+const MAX_PAGE_SIZE = 1000000;
+
+type JobProgress = Omit<Extract<ExecutionEvent, { type: 'progress' }>, 'type'>;
+
+interface RunningJob {
+  controller: AbortController;
+  done: Promise<void>;
+  progress?: JobProgress;
+}
+
+export interface JobStatusReport {
+  job_id: string;
+  status: JobStatus;
+  tool?: string;
+  submittedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  position?: number;       // Place in the queue of a queued job, from 1
+  progress?: JobProgress;  // Last progress the running job reported
+  error?: string;
+}
+
+/**
+ * Which part of a job's output to return
+ */
+export interface JobPageRequest {
+  stream?: 'stdout' | 'stderr';
+  offset?: number;  // Characters to skip
+  limit?: number;   // Characters to return
+}
+
+export interface JobResultPage {
+  job_id: string;
+  status: JobStatus;
+  success: boolean;
+  result: ExecutionStatus;  // How the execution ended
+  exitCode: number;
+  signal?: string;
+  executionTime: number;
+  usage?: ExecutionResult['usage'];
+  error?: string;
+  limitExceeded?: ExecutionResult['limitExceeded'];
+  findings?: ExecutionResult['findings'];
+  files?: ExecutionResult['files'];  // Kept as artifacts of the job's owner
+  artifacts?: ExecutionResult['outputArtifacts'];  // Whole streams, when output holds their head and tail
+  structured?: unknown;              // What the script wrote to MCP_RESULT_FILE
+  sandbox?: string;                  // Set when the job ran without filesystem isolation
+  stream: 'stdout' | 'stderr';
+  offset: number;
+  length: number;       // Total characters in the stream
+  output: string;
+  nextOffset?: number;  // Offset of the next page, if there is more output
+}
+
+export class JobManager {
+  private store: JobStore;
+  private queue: string[] = [];
+  private running: Map<string, RunningJob> = new Map();
+  private limited?: ExecutorDispatcher;  // With the job limits, made once runtimes are detected
+
+  constructor(
+    private executor: ExecutorDispatcher,
+    private config: JobConfig,
+    private artifacts: ArtifactStore
+  ) {
+    this.store = new JobStore(config.storeDir);
+  }
+
+  /**
+   * Open the store, take over jobs left behind by a server that exited and
+   * delete expired ones
+   */
+  async open(): Promise<void> {
+    // Jobs do not outlive the server; aborting kills their process groups
+    process.on('exit', () => {
+      for (const job of this.running.values()) {
+        job.controller.abort();
+      }
+    });
+
+    for (const record of await this.store.open()) {
+      await this.recover(record);
+    }
+    await this.removeExpired();
+  }
+
+  /**
+   * Longest job a request may ask for
+   */
+  getMaxTimeout(): number {
+    return this.config.maxTimeout;
+  }
+
+  /**
+   * Queue a job for a client; it starts when a worker is free
+   */
+  async submit(owner: string, request: JobRequest, tool?: string): Promise<JobStatusReport> {
+    const record: JobRecord = {
+      id: randomUUID(),
+      owner,
+      tool,
+      status: 'queued',
+      request,
+      submittedAt: Date.now(),
+      pid: process.pid,
+    };
+    await this.store.save(record);
+    this.queue.push(record.id);
+    console.error(`Job ${record.id} queued for ${owner}`);
+
+    this.startQueued();
+    void this.removeExpired();
+    return this.report(record);
+  }
+
+  /**
+   * Status of one of the client's jobs
+   */
+  async status(owner: string, id: string): Promise<JobStatusReport> {
+    return this.report(await this.get(owner, id));
+  }
+
+  /**
+   * A page of a finished job's output, with its result
+   */
+  async result(owner: string, id: string, page: JobPageRequest = {}): Promise<JobResultPage> {
+    const record = await this.get(owner, id);
+    const result = isFinished(record.status) ? await this.store.loadResult(id) : undefined;
+    if (!result) {
+      throw new Error(`Job ${id} has not finished (status: ${record.status}); check get_job_status`);
+    }
+
+    const stream = page.stream === 'stderr' ? 'stderr' : 'stdout';
+    const output = result[stream];
+    const offset = Math.max(0, Math.floor(page.offset ?? 0));
+    const limit = Math.min(Math.max(1, Math.floor(page.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+    const text = output.slice(offset, offset + limit);
+    const end = offset + text.length;
+
+    return {
+      job_id: id,
+      status: record.status,
+      success: result.success,
+      result: result.status,
+      exitCode: result.exitCode,
+      signal: result.signal,
+      executionTime: result.executionTime,
+      usage: result.usage,
+      error: result.error,
+      limitExceeded: result.limitExceeded,
+      findings: result.findings,
+      files: result.files,
+      artifacts: result.outputArtifacts,
+      structured: result.structured,
+      sandbox: result.sandbox,
+      stream,
+      offset,
+      length: output.length,
+      output: text,
+      nextOffset: end < output.length ? end : undefined,
+    };
+  }
+
+  /**
+   * Cancel one of the client's jobs. A queued job is dropped; a running
+   * one is killed. Cancelling a finished job changes nothing.
+   */
+  async cancel(owner: string, id: string): Promise<JobStatusReport> {
+    const record = await this.get(owner, id);
+
+    const running = this.running.get(id);
+    if (running) {
+      running.controller.abort();
+      await running.done;
+      return await this.status(owner, id);
+    }
+
+    if (record.status === 'queued') {
+      this.queue = this.queue.filter(queued => queued !== id);
+      await this.finish(record, 'cancelled', emptyResult('Job cancelled', 'cancelled'));
+    } else if (record.status === 'running') {
+      // Run by another server process, which checks for this flag
+      record.cancelRequested = true;
+      await this.store.save(record);
+    }
+    return this.report(record);
+  }
+
+  private async get(owner: string, id: string): Promise<JobRecord> {
+    const record = await this.store.load(id);
+    // Other clients' jobs are reported as unknown, not as forbidden
+    if (!record || record.owner !== owner) {
+      throw new Error(`Unknown job: ${id}`);
+    }
+    await this.recover(record);
+    return record;
+  }
+
+  /**
+   * Take over a job whose server process exited: a queued job is queued
+   * here, a running one failed with it
+   */
+  private async recover(record: JobRecord): Promise<void> {
+    if (isFinished(record.status) || isAlive(record.pid)) {
+      return;
+    }
+
+    if (record.status === 'queued') {
+      record.pid = process.pid;
+      await this.store.save(record);
+      this.queue.push(record.id);
+      this.startQueued();
+    } else {
+      await this.finish(record, 'failed', emptyResult('Interrupted: the server running the job exited', 'signal'));
+    }
+  }
+
+  /**
+   * Start queued jobs while workers are free
+   */
+  private startQueued(): void {
+    while (this.running.size < this.config.workers && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      const job: RunningJob = { controller: new AbortController(), done: Promise.resolve() };
+      job.done = this.run(id, job)
+        .catch((error) => console.error(`Job ${id} failed to run:`, error))
+        .finally(() => {
+          this.running.delete(id);
+          this.startQueued();
+        });
+      this.running.set(id, job);
+    }
+  }
+
+  private async run(id: string, job: RunningJob): Promise<void> {
+    const record = await this.store.load(id);
+    // Cancelled while it waited, possibly through another server process
+    if (!record || record.status !== 'queued') {
+      return;
+    }
+    const signal = job.controller.signal;
+    if (signal.aborted) {
+      await this.finish(record, 'cancelled', emptyResult('Job cancelled', 'cancelled'));
+      return;
+    }
+
+    record.status = 'running';
+    record.startedAt = Date.now();
+    await this.store.save(record);
+    console.error(`Job ${id} started`);
+
+    const poll = setInterval(() => {
+      void this.store.load(id).then((current) => {
+        if (current?.cancelRequested) {
+          job.controller.abort();
+        }
+      });
+    }, CANCEL_POLL_MS).unref();
+
+    const listener = (event: ExecutionEvent) => {
+      if (event.type === 'progress') {
+        job.progress = { percent: event.percent ?? job.progress?.percent, message: event.message };
+      }
+    };
+
+    let result: ExecutionResult;
+    try {
+      const control = {
+        owner: record.owner,
+        listener,
+        signal,
+        collectOutput: (dir: string) => this.artifacts.collect(record.owner, dir),
+      };
+      const request = record.request;
+      result = 'scriptPath' in request
+        ? await this.getExecutor().runScript({ ...request, ...control })
+        : await this.getExecutor().execute({ ...request, ...control });
+    } catch (error) {
+      result = emptyResult(error instanceof Error ? error.message : String(error), 'spawn_error');
+    } finally {
+      clearInterval(poll);
+    }
+
+    const status = result.status === 'cancelled' ? 'cancelled' : result.success ? 'succeeded' : 'failed';
+    await this.finish(record, status, result);
+  }
+
+  private async finish(record: JobRecord, status: JobStatus, result: ExecutionResult): Promise<void> {
+    record.status = status;
+    record.finishedAt = Date.now();
+    record.error = status === 'succeeded' ? undefined : result.error;
+    // A finished record always has its result
+    await this.store.saveResult(record.id, result);
+    // Its artifacts are deleted with the job, not after the shorter artifact retention
+    await this.artifacts.retain(artifactIds(result), record.finishedAt + this.config.retentionMs);
+    await this.store.save(record);
+    console.error(`Job ${record.id} ${status}`);
+  }
+
+  /**
+   * Delete finished jobs older than the retention period
+   */
+  private async removeExpired(): Promise<void> {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const record of await this.store.open()) {
+      if (isFinished(record.status) && record.finishedAt! < cutoff) {
+        await this.store.remove(record.id);
+      }
+    }
+  }
+
+  private getExecutor(): ExecutorDispatcher {
+    this.limited ??= this.executor.withLimits({
+      maxTimeout: this.config.maxTimeout,
+      maxCpuSeconds: this.config.maxCpuSeconds,
+    });
+    return this.limited;
+  }
+
+  private report(record: JobRecord): JobStatusReport {
+    const position = this.queue.indexOf(record.id);
+    return {
+      job_id: record.id,
+      status: record.status,
+      tool: record.tool,
+      submittedAt: new Date(record.submittedAt).toISOString(),
+      startedAt: record.startedAt ? new Date(record.startedAt).toISOString() : undefined,
+      finishedAt: record.finishedAt ? new Date(record.finishedAt).toISOString() : undefined,
+      position: position === -1 ? undefined : position + 1,
+      progress: this.running.get(record.id)?.progress,
+      error: record.error,
+    };
+  }
+}
+
+function isFinished(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Whether a server process still runs; this one always does
+ */
+function isAlive(pid: number): boolean {
+  if (pid === process.pid) {
+    return true;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Artifacts a job's result links to
+ */
+function artifactIds(result: ExecutionResult): string[] {
+  const ids = (result.files || []).map(file => file.artifactId);
+  for (const id of [result.outputArtifacts?.stdout, result.outputArtifacts?.stderr]) {
+    if (id) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Result of a job that ended without output
+ */
+function emptyResult(error: string, status: ExecutionStatus): ExecutionResult {
+  return {
+    success: false,
+    status,
+    stdout: '',
+    stderr: '',
+    exitCode: -1,
+    executionTime: 0,
+    error,
+  };
+}
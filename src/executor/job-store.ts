@@ -0,0 +1,94 @@
+/**
+ * Job Store
+ * Keeps background jobs on disk, one JSON file per job and one for its
+ * result, so jobs outlive client connections and the server process
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ExecutionResult, JobRecord } from '../types/index.js';
+
+const RESULT_SUFFIX = '.result.json';
+// Job ids come from clients; only UUIDs can name a job file
+const JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export class JobStore {
+  constructor(private dir: string) {}
+
+  /**
+   * Create the store directory if needed and read every job in it
+   */
+  async open(): Promise<JobRecord[]> {
+    await fs.mkdir(this.dir, { recursive: true, mode: 0o700 });
+
+    const records: JobRecord[] = [];
+    for (const name of await fs.readdir(this.dir)) {
+      if (!name.endsWith('.json') || name.endsWith(RESULT_SUFFIX)) {
+        continue;
+      }
+      const record = await this.load(name.slice(0, -'.json'.length));
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Read a job; a missing or unreadable file gives undefined, an id that
+   * cannot name a job throws
+   */
+  async load(id: string): Promise<JobRecord | undefined> {
+    return await readJson<JobRecord>(this.recordPath(id));
+  }
+
+  async save(record: JobRecord): Promise<void> {
+    await writeAtomic(this.recordPath(record.id), JSON.stringify(record));
+  }
+
+  async loadResult(id: string): Promise<ExecutionResult | undefined> {
+    return await readJson<ExecutionResult>(this.resultPath(id));
+  }
+
+  async saveResult(id: string, result: ExecutionResult): Promise<void> {
+    await writeAtomic(this.resultPath(id), JSON.stringify(result));
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.resultPath(id), { force: true });
+    await fs.rm(this.recordPath(id), { force: true });
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.dir, `${checkId(id)}.json`);
+  }
+
+  private resultPath(id: string): string {
+    return path.join(this.dir, `${checkId(id)}${RESULT_SUFFIX}`);
+  }
+}
+
+function checkId(id: string): string {
+  if (!JOB_ID.test(id)) {
+    throw new Error(`Unknown job: ${id}`);
+  }
+  return id;
+}
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write through a temporary file, so readers in other server processes
+ * never see half a file
+ */
+async function writeAtomic(file: string, data: string): Promise<void> {
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, data, { mode: 0o600 });
+  await fs.rename(temporary, file);
+}
@@ -0,0 +1,132 @@
+/**
+ * Kernel Manager
+ * Owns the persistent Python sessions: enforces the session limit, closes
+ * idle sessions and keeps each session private to the client that opened it
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  DEFAULT_KERNEL_CONFIG,
+  ExecutionResult,
+  KernelConfig,
+  KernelRequest,
+} from '../types/index.js';
+import { ExecutorDispatcher } from './index.js';
+import { PythonKernel } from './python-kernel.js';
+
+interface ManagedKernel {
+  id: string;
+  owner: string;  // Client session that created the kernel
+  kernel: PythonKernel;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export interface KernelInfo {
+  id: string;
+  python: string;  // Interpreter version
+  idleTimeoutMs: number;
+}
+
+export class KernelManager {
+  private kernels: Map<string, ManagedKernel> = new Map();
+  private starting = 0;
+
+  constructor(
+    private executor: ExecutorDispatcher,
+    private config: KernelConfig = DEFAULT_KERNEL_CONFIG
+  ) {}
+
+  /**
+   * Start a kernel for a client session
+   */
+  async create(owner: string, request: KernelRequest = {}): Promise<KernelInfo> {
+    // Kernels still starting count, so concurrent creates cannot overshoot
+    if (this.kernels.size + this.starting >= this.config.maxSessions) {
+      throw new Error(
+        `Too many Python sessions: at most ${this.config.maxSessions} may be open; ` +
+        'close an unused one with close_session'
+      );
+    }
+
+    this.starting++;
+    let started: { kernel: PythonKernel; version: string };
+    try {
+      started = await this.executor.getPythonExecutor().startKernel(request, {
+        maxMemoryMB: this.config.maxMemoryMB,
+        maxCpuSeconds: this.config.maxCpuSeconds,
+      });
+    } finally {
+      this.starting--;
+    }
+
+    const entry: ManagedKernel = { id: randomUUID(), owner, kernel: started.kernel };
+    this.kernels.set(entry.id, entry);
+    this.scheduleIdleClose(entry);
+    console.error(`Python session ${entry.id} started for ${owner}`);
+
+    return { id: entry.id, python: started.version, idleTimeoutMs: this.config.idleTimeoutMs };
+  }
+
+  /**
+   * Run code in one of the client session's kernels
+   */
+  async execute(
+    owner: string,
+    id: string,
+    code: string,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<ExecutionResult> {
+    const entry = this.get(owner, id);
+    clearTimeout(entry.idleTimer);
+
+    try {
+      return await this.executor.executeInKernel(entry.kernel, code, timeout, { owner, signal });
+    } finally {
+      if (entry.kernel.alive) {
+        this.scheduleIdleClose(entry);
+      } else {
+        // Ended by a resource limit or an unresponsive timeout; its state is gone
+        this.kernels.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Close one of the client session's kernels
+   */
+  async close(owner: string, id: string): Promise<void> {
+    await this.remove(this.get(owner, id));
+  }
+
+  /**
+   * Close every kernel of a client session, e.g. when it disconnects
+   */
+  async closeOwnedBy(owner: string): Promise<void> {
+    const owned = Array.from(this.kernels.values()).filter(entry => entry.owner === owner);
+    await Promise.all(owned.map(entry => this.remove(entry)));
+  }
+
+  private get(owner: string, id: string): ManagedKernel {
+    const entry = this.kernels.get(id);
+    // Other clients' kernels are reported as unknown, not as forbidden
+    if (!entry || entry.owner !== owner) {
+      throw new Error(`Unknown Python session: ${id}`);
+    }
+    return entry;
+  }
+
+  private scheduleIdleClose(entry: ManagedKernel): void {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => {
+      console.error(`Python session ${entry.id} idle for ${this.config.idleTimeoutMs} ms, closing`);
+      void this.remove(entry);
+    }, this.config.idleTimeoutMs).unref();
+  }
+
+  private async remove(entry: ManagedKernel): Promise<void> {
+    clearTimeout(entry.idleTimer);
+    this.kernels.delete(entry.id);
+    await entry.kernel.close();
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Network Policy
+ * Resolves the effective network policy for a call and explains
+ * network failures caused by it
+ */
+
+import { NetworkPolicy } from '../types/index.js';
+
+/**
+ * Apply a per-call policy, which may only narrow the server's policy
+ */
+export function narrowNetworkPolicy(
+  server: NetworkPolicy,
+  requested?: NetworkPolicy
+): NetworkPolicy {
+  if (!requested || (requested.mode === server.mode && !requested.allow)) {
+    return server;
+  }
+
+  const widens = () => new Error(
+    `Network mode '${requested.mode}' is not permitted: server network mode is '${server.mode}'`
+  );
+
+  switch (requested.mode) {
+    case 'none':
+      return requested;
+    case 'loopback-only':
+      if (server.mode !== 'loopback-only' && server.mode !== 'unrestricted') {
+        throw widens();
+      }
+      return requested;
+    case 'allowlist': {
+      if (server.mode === 'unrestricted') {
+        return requested;
+      }
+      if (server.mode !== 'allowlist') {
+        throw widens();
+      }
+      const extra = (requested.allow || []).filter(entry => !(server.allow || []).includes(entry));
+      if (extra.length > 0) {
+        throw new Error(`Network destinations not in the server allowlist: ${extra.join(', ')}`);
+      }
+      return requested;
+    }
+    case 'unrestricted':
+      if (server.mode !== 'unrestricted') {
+        throw widens();
+      }
+      return requested;
+    default:
+      throw new Error(`Unknown network mode: ${(requested as NetworkPolicy).mode}`);
+  }
+}
+
+/**
+ * Add a hint when a failure in an isolated process looks network related,
+ * so a denied connection does not read as an unexplained error
+ */
+export function explainNetworkFailure(policy: NetworkPolicy, stderr: string): string | undefined {
+  if (policy.mode === 'unrestricted') {
+    return undefined;
+  }
+
+  const networkError = /Network is unreachable|Could not resolve host|Temporary failure in name resolution|Name or service not known|getaddrinfo (EAI_AGAIN|ENOTFOUND)|ENETUNREACH|Network access denied by policy/;
+  if (!networkError.test(stderr)) {
+    return undefined;
+  }
+
+  const allowed = policy.mode === 'allowlist' ? ` (allowed: ${(policy.allow || []).join(', ') || 'none'})` : '';
+  return `Network access denied by policy: network mode is '${policy.mode}'${allowed}`;
+}
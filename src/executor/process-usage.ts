@@ -0,0 +1,130 @@
+/**
+ * Process Usage
+ * Samples the memory and CPU time of a running process tree from /proc, for
+ * executions without a cgroup to account for them. Linux only.
+ */
+
+import * as fs from 'fs/promises';
+import { ResourceUsage } from '../types/index.js';
+
+// Short executions are sampled often; the interval doubles up to the maximum
+const FIRST_INTERVAL_MS = 10;
+const MAX_INTERVAL_MS = 200;
+// Unit of the CPU times in /proc/<pid>/stat (USER_HZ, 100 on every Linux ABI)
+const CLOCK_TICKS = 100;
+
+export class UsageSampler {
+  private peakKB = 0;
+  private cpuTicks: Map<number, number> = new Map();  // Latest CPU time of each process seen
+  private timer?: NodeJS.Timeout;
+  private active = false;
+  private sampling?: Promise<void>;
+
+  constructor(private pid: number) {}
+
+  start(): void {
+    if (process.platform !== 'linux') {
+      return;
+    }
+    this.active = true;
+    this.sample(FIRST_INTERVAL_MS);
+  }
+
+  /**
+   * Stop sampling; undefined when nothing could be read
+   */
+  async stop(): Promise<ResourceUsage | undefined> {
+    this.active = false;
+    clearTimeout(this.timer);
+    await this.sampling;
+    if (this.cpuTicks.size === 0) {
+      return undefined;
+    }
+
+    let ticks = 0;
+    for (const value of this.cpuTicks.values()) {
+      ticks += value;
+    }
+    return {
+      peakMemoryMB: roundTo(this.peakKB / 1024, 1),
+      cpuSeconds: roundTo(ticks / CLOCK_TICKS, 2),
+      measuredBy: 'sampled',
+    };
+  }
+
+  /**
+   * Take a sample, then the next one an interval after it finished
+   */
+  private sample(interval: number): void {
+    this.sampling = this.collect().finally(() => {
+      this.sampling = undefined;
+      if (this.active) {
+        const next = Math.min(interval * 2, MAX_INTERVAL_MS);
+        this.timer = setTimeout(() => this.sample(next), interval);
+      }
+    });
+  }
+
+  private async collect(): Promise<void> {
+    let residentKB = 0;
+    for (const pid of await processTree(this.pid)) {
+      const usage = await readProcess(pid);
+      if (!usage) {
+        continue;
+      }
+      residentKB += usage.residentKB;
+      // The high-water mark catches a single process's peaks between samples
+      this.peakKB = Math.max(this.peakKB, usage.peakKB);
+      this.cpuTicks.set(pid, usage.cpuTicks);
+    }
+    this.peakKB = Math.max(this.peakKB, residentKB);
+  }
+}
+
+/**
+ * A process and its descendants
+ */
+async function processTree(root: number): Promise<number[]> {
+  const pids: number[] = [];
+  const pending = [root];
+  while (pending.length > 0) {
+    const pid = pending.pop()!;
+    pids.push(pid);
+    try {
+      const children = await fs.readFile(`/proc/${pid}/task/${pid}/children`, 'utf-8');
+      pending.push(...children.split(' ').filter(Boolean).map(Number));
+    } catch {
+      // Exited, or the kernel does not list children
+    }
+  }
+  return pids;
+}
+
+async function readProcess(
+  pid: number
+): Promise<{ residentKB: number; peakKB: number; cpuTicks: number } | undefined> {
+  try {
+    const status = await fs.readFile(`/proc/${pid}/status`, 'utf-8');
+    const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf-8');
+    // Fields after the command name, which may itself contain spaces or parentheses;
+    // utime and stime are fields 14 and 15 of the whole line
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return {
+      residentKB: statusValue(status, 'VmRSS'),
+      peakKB: statusValue(status, 'VmHWM'),
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function statusValue(status: string, key: string): number {
+  const match = new RegExp(`^${key}:\\s+(\\d+)`, 'm').exec(status);
+  return match ? Number(match[1]) : 0;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
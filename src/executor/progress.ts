@@ -0,0 +1,93 @@
+/**
+ * Progress Sentinels
+ * Scripts report progress by printing a line on stdout such as
+ *
+ *   ::progress:: 40 Parsing access.log
+ *
+ * (a percentage, optionally followed by a message, or just a message).
+ * Sentinel lines are turned into progress events and removed from stdout.
+ */
+
+import { ExecutionEvent } from '../types/index.js';
+
+export const PROGRESS_SENTINEL = '::progress::';
+// Longer unfinished lines are output, not progress
+const MAX_SENTINEL_LENGTH = 4096;
+
+export class ProgressParser {
+  private pending = '';  // Start of a line that may still become a sentinel
+
+  constructor(
+    private onText: (text: string) => void,
+    private onProgress: (event: Extract<ExecutionEvent, { type: 'progress' }>) => void
+  ) {}
+
+  /**
+   * Feed a chunk of stdout. Text is passed on as soon as it cannot be part
+   * of a sentinel line, so ordinary output is not held back.
+   */
+  push(chunk: string): void {
+    const text = this.pending + chunk;
+    this.pending = '';
+
+    let output = '';
+    let lineStart = 0;
+    while (lineStart < text.length) {
+      const newline = text.indexOf('\n', lineStart);
+      const line = newline === -1 ? text.slice(lineStart) : text.slice(lineStart, newline + 1);
+
+      if (newline === -1 && couldBeSentinel(line)) {
+        // Wait for the rest of the line
+        this.pending = line;
+        break;
+      }
+      if (newline !== -1 && line.startsWith(PROGRESS_SENTINEL)) {
+        // Keep output and progress in the order they were printed
+        if (output) {
+          this.onText(output);
+          output = '';
+        }
+        this.onProgress(parseSentinel(line));
+      } else {
+        output += line;
+      }
+      lineStart += line.length;
+    }
+
+    if (output) {
+      this.onText(output);
+    }
+  }
+
+  /**
+   * Pass on a last line left without a newline when the process exits
+   */
+  flush(): void {
+    if (this.pending.startsWith(PROGRESS_SENTINEL)) {
+      this.onProgress(parseSentinel(this.pending));
+    } else if (this.pending) {
+      this.onText(this.pending);
+    }
+    this.pending = '';
+  }
+}
+
+function couldBeSentinel(partialLine: string): boolean {
+  if (partialLine.length > MAX_SENTINEL_LENGTH) {
+    return false;
+  }
+  return partialLine.startsWith(PROGRESS_SENTINEL) || PROGRESS_SENTINEL.startsWith(partialLine);
+}
+
+function parseSentinel(line: string): Extract<ExecutionEvent, { type: 'progress' }> {
+  const body = line.slice(PROGRESS_SENTINEL.length).trim();
+  const match = /^(\d+(?:\.\d+)?)%?(?:\s+(.*))?$/s.exec(body);
+  if (!match) {
+    return { type: 'progress', message: body || undefined };
+  }
+  return {
+    type: 'progress',
+    percent: Math.min(Number(match[1]), 100),
+    message: match[2]?.trim() || undefined,
+  };
+}
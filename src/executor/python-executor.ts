@@ -3,161 +3,118 @@
  * Executes Python code in a subprocess with timeout and security controls
  */
 
-import { spawn } from 'child_process';
-import { ExecutionRequest, ExecutionResult, DEFAULT_CONFIG } from '../types/index.js';
 import * as fs from 'fs/promises';
-import * as path from 'path';
 import * as os from 'os';
-
-export class PythonExecutor {
-  private config = DEFAULT_CONFIG;
+import * as path from 'path';
+import {
+  ExecutionResult,
+  ExecutorConfig,
+  KernelRequest,
+  NetworkPolicy,
+  PolicyFinding,
+  RuntimeDefinition,
+} from '../types/index.js';
+import { BaseExecutor, NetworkGuard } from './base-executor.js';
+import { Sandbox, narrowReadPaths } from './sandbox.js';
+import { narrowNetworkPolicy } from './network-policy.js';
+import { PythonKernel } from './python-kernel.js';
+import { PYTHON_RUNTIME } from './runtimes.js';
+import { checkPythonPolicy } from './python-policy.js';
+import { PYTHON_DIR } from '../paths.js';
+
+// Holds sitecustomize.py, which Python imports at startup to install the network guard
+const GUARD_DIR = path.join(PYTHON_DIR, 'guard');
+// REPL loop behind persistent sessions
+const KERNEL_SCRIPT = path.join(PYTHON_DIR, 'kernel.py');
+
+export class PythonExecutor extends BaseExecutor {
+  constructor(
+    protected readonly runtime: RuntimeDefinition = PYTHON_RUNTIME,
+    config?: ExecutorConfig,
+    sandbox?: Sandbox
+  ) {
+    super(config, sandbox);
+  }
 
   /**
-   * Validate code for basic security checks
+   * Check imports, builtins and calls against the Python policy using the AST
    */
-  private validateCode(code: string): void {
-    // Check for blocked commands
-    for (const blocked of this.config.blockedCommands || []) {
-      if (code.includes(blocked)) {
-        throw new Error(`Security violation: Blocked command detected: ${blocked}`);
-      }
-    }
-
-    // Basic length check
-    if (code.length > 100000) {
-      throw new Error('Code too large: Maximum 100KB allowed');
-    }
+  protected async checkPolicy(code: string): Promise<PolicyFinding[]> {
+    return await checkPythonPolicy(code, this.config.policy.python, this.runtime.command);
   }
 
   /**
-   * Execute Python code with timeout and resource limits
+   * Enforce the network policy inside the interpreter with an audit hook on
+   * socket connects, so denied connections fail fast with a clear PermissionError
    */
-  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
-    const startTime = Date.now();
-    const timeout = Math.min(
-      request.timeout || this.config.maxTimeout,
-      this.config.maxTimeout
-    );
+  protected networkGuard(policy: NetworkPolicy): NetworkGuard {
+    const pythonPath = [GUARD_DIR, process.env.PYTHONPATH].filter(Boolean).join(path.delimiter);
+    return {
+      env: {
+        MCP_NETWORK_POLICY: JSON.stringify(policy),
+        PYTHONPATH: pythonPath,
+      },
+      readPaths: [GUARD_DIR],
+    };
+  }
 
+  /**
+   * Start a persistent interpreter with the same sandbox and network
+   * enforcement as one-off executions; limits override the executor's
+   * resource limits for the kernel's lifetime
+   */
+  async startKernel(
+    request: KernelRequest,
+    limits: Partial<ExecutorConfig> = {}
+  ): Promise<{ kernel: PythonKernel; version: string }> {
+    const readPaths = request.readPaths
+      ? await narrowReadPaths(request.readPaths, this.sandbox.getReadOnlyPaths())
+      : undefined;
+    const network = narrowNetworkPolicy(this.config.network, request.network);
+
+    // Lives as long as the kernel, which removes it on exit
+    const scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-kernel-'));
     try {
-      // Validate code
-      this.validateCode(request.code);
-
-      // Create temporary file for the code
-      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-exec-'));
-      const scriptPath = path.join(tmpDir, 'script.py');
-      await fs.writeFile(scriptPath, request.code, 'utf-8');
-
-      // Execute Python with resource limits
-      const result = await this.executeProcess(scriptPath, timeout, tmpDir);
-
-      // Cleanup
-      await fs.rm(tmpDir, { recursive: true, force: true });
-
-      return {
-        ...result,
-        executionTime: Date.now() - startTime,
-      };
+      const prepared = await this.prepareProcess(
+        KERNEL_SCRIPT,
+        {
+          workingDir: scratchDir,
+          readPaths,
+          extraReadPaths: [KERNEL_SCRIPT],
+          network,
+          workspace: request.workspace,
+        },
+        { ...this.config, ...limits }
+      );
+      return await PythonKernel.start(prepared, scratchDir);
     } catch (error) {
-      return {
-        success: false,
-        stdout: '',
-        stderr: error instanceof Error ? error.message : String(error),
-        exitCode: -1,
-        executionTime: Date.now() - startTime,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      await fs.rm(scratchDir, { recursive: true, force: true });
+      throw error;
     }
   }
 
   /**
-   * Execute the Python process
+   * Run code in a kernel; the code policy and per-call timeout apply as
+   * they do to one-off executions
    */
-  private executeProcess(
-    scriptPath: string,
-    timeout: number,
-    workingDir: string
-  ): Promise<Omit<ExecutionResult, 'executionTime'>> {
-    return new Promise((resolve) => {
-      let stdout = '';
-      let stderr = '';
-      let killed = false;
-
-      // Spawn Python process
-      const proc = spawn('python3', [scriptPath], {
-        cwd: workingDir,
-        env: {
-          ...process.env,
-          PYTHONUNBUFFERED: '1',
-        },
-        timeout: timeout,
-      });
-
-      // Capture stdout
-      proc.stdout.on('data', (data) => {
-        stdout += data.toString();
-        // Limit output size to prevent memory issues
-        if (stdout.length > 1000000) { // 1MB limit
-          proc.kill();
-          killed = true;
-        }
-      });
-
-      // Capture stderr
-      proc.stderr.on('data', (data) => {
-        stderr += data.toString();
-        if (stderr.length > 1000000) { // 1MB limit
-          proc.kill();
-          killed = true;
-        }
-      });
-
-      // Handle timeout
-      const timer = setTimeout(() => {
-        if (!proc.killed) {
-          proc.kill('SIGTERM');
-          killed = true;
-          setTimeout(() => {
-            if (!proc.killed) {
-              proc.kill('SIGKILL');
-            }
-          }, 1000);
-        }
-      }, timeout);
-
-      // Handle process exit
-      proc.on('close', (code) => {
-        clearTimeout(timer);
+  async executeInKernel(
+    kernel: PythonKernel,
+    code: string,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
 
-        if (killed) {
-          resolve({
-            success: false,
-            stdout,
-            stderr: stderr + '\nExecution timeout or output limit exceeded',
-            exitCode: -1,
-            error: 'Execution timeout or output limit exceeded',
-          });
-        } else {
-          resolve({
-            success: code === 0,
-            stdout,
-            stderr,
-            exitCode: code || 0,
-          });
-        }
-      });
+    const rejected = await this.screenCode(code, startTime);
+    if (rejected) {
+      return rejected;
+    }
 
-      // Handle errors
-      proc.on('error', (error) => {
-        clearTimeout(timer);
-        resolve({
-          success: false,
-          stdout,
-          stderr: stderr + '\n' + error.message,
-          exitCode: -1,
-          error: error.message,
-        });
-      });
-    });
+    const result = await kernel.execute(
+      code,
+      Math.min(timeout || this.config.maxTimeout, this.config.maxTimeout),
+      signal
+    );
+    return { ...result, executionTime: Date.now() - startTime, sandbox: this.sandboxNotice() };
   }
 }
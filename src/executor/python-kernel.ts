@@ -0,0 +1,289 @@
+/**
+ * Python Kernel
+ * A long-lived, sandboxed Python interpreter (python/kernel.py) that runs
+ * code cells in one namespace, so state survives between executions
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import { ExecutionResult, ExecutionStatus } from '../types/index.js';
+import { PreparedProcess, killProcessGroup } from './base-executor.js';
+import { detectLimitExceeded, releaseCgroup } from './resource-limits.js';
+
+const STARTUP_TIMEOUT_MS = 10000;
+// Time the kernel gets to interrupt a cell itself before it is killed
+const INTERRUPT_GRACE_MS = 2000;
+// Characters per stream a cell returns, as its head and tail. Unlike one-off
+// executions, a cell's whole output is not kept on disk.
+const MAX_OUTPUT = 1000000;
+
+interface KernelReply {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  error?: string;
+  timedOut?: boolean;
+  cancelled?: boolean;
+}
+
+interface PendingCell {
+  resolve: (result: Omit<ExecutionResult, 'executionTime'>) => void;
+  stray: string;  // Output written around sys.stdout, e.g. by C extensions
+  timer: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort: () => void;
+}
+
+export class PythonKernel {
+  private proc: ChildProcess;
+  private token = randomBytes(16).toString('hex');
+  private buffer = '';
+  private stderr = '';
+  private pending?: PendingCell;
+  private endedBy?: ExecutionStatus;  // Why the server killed the kernel, if it did
+  private exited: Promise<void>;
+  private ready: Promise<string>;
+  private closed = false;
+
+  private constructor(
+    prepared: PreparedProcess,
+    private scratchDir: string
+  ) {
+    this.proc = spawn(prepared.command, prepared.args, {
+      cwd: scratchDir,
+      env: {
+        ...prepared.env,
+        MCP_KERNEL_TOKEN: this.token,
+        MCP_KERNEL_MAX_OUTPUT: String(MAX_OUTPUT),
+      },
+      // Own process group, so anything a cell started is killed with the kernel
+      detached: true,
+    });
+
+    let onReady: (version: string) => void;
+    let onFailed: (error: Error) => void;
+    this.ready = new Promise((resolve, reject) => {
+      onReady = resolve;
+      onFailed = reject;
+    });
+    // Startup failures are reported by start(); later exits are not errors
+    this.ready.catch(() => undefined);
+
+    // A kernel that died mid-write is reported through 'close'
+    this.proc.stdin!.on('error', () => undefined);
+    this.proc.stdout!.on('data', (data) => this.onStdout(data.toString(), onReady));
+    this.proc.stderr!.on('data', (data) => {
+      // Only startup errors and crashes end up here; cell output is captured in Python
+      this.stderr = (this.stderr + data.toString()).slice(-MAX_OUTPUT);
+    });
+
+    this.exited = new Promise<void>((resolve) => {
+      this.proc.on('error', (error) => {
+        onFailed(error);
+        this.onExit(null, null);
+        resolve();
+      });
+      this.proc.on('close', (code, signal) => {
+        onFailed(new Error(`Python session failed to start: ${this.stderr.trim() || `exit ${code}`}`));
+        this.onExit(code, signal);
+        resolve();
+      });
+    }).then(async () => {
+      if (prepared.cgroupDir) {
+        await releaseCgroup(prepared.cgroupDir);
+      }
+      await fs.rm(this.scratchDir, { recursive: true, force: true });
+    });
+  }
+
+  /**
+   * Start a kernel and wait until it accepts cells; returns it with the
+   * interpreter version
+   */
+  static async start(
+    prepared: PreparedProcess,
+    scratchDir: string
+  ): Promise<{ kernel: PythonKernel; version: string }> {
+    const kernel = new PythonKernel(prepared, scratchDir);
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const version = await Promise.race([
+        kernel.ready,
+        new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('Python session did not start in time')),
+            STARTUP_TIMEOUT_MS
+          );
+        }),
+      ]);
+      return { kernel, version };
+    } catch (error) {
+      await kernel.close();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  get alive(): boolean {
+    return !this.closed;
+  }
+
+  get busy(): boolean {
+    return this.pending !== undefined;
+  }
+
+  /**
+   * Run a cell. Python interrupts a cell that exceeds the timeout or is
+   * cancelled through the signal and keeps its state; a kernel that does not
+   * respond to the interrupt is killed.
+   */
+  execute(
+    code: string,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<Omit<ExecutionResult, 'executionTime'>> {
+    if (this.closed) {
+      return Promise.reject(new Error('Python session has ended'));
+    }
+    if (this.pending) {
+      return Promise.reject(new Error('Python session is busy with another execution'));
+    }
+    if (signal?.aborted) {
+      return Promise.resolve({
+        success: false,
+        stdout: '',
+        stderr: '',
+        exitCode: -1,
+        error: 'Execution cancelled',
+        status: 'cancelled',
+      });
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.stderr += '\nExecution timeout exceeded and the session did not respond; session ended';
+        this.kill('timeout');
+      }, timeout + INTERRUPT_GRACE_MS);
+
+      const onAbort = () => {
+        this.proc.stdin!.write(JSON.stringify({ cancel: true }) + '\n');
+        clearTimeout(timer);
+        this.pending!.timer = setTimeout(() => {
+          this.stderr += '\nExecution cancelled and the session did not respond; session ended';
+          this.kill('cancelled');
+        }, INTERRUPT_GRACE_MS);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending = { resolve, stray: '', timer, signal, onAbort };
+      this.proc.stdin!.write(JSON.stringify({ code, timeout: timeout / 1000 }) + '\n');
+    });
+  }
+
+  /**
+   * End the kernel: close its input so it exits, killing it if it does not
+   */
+  async close(): Promise<void> {
+    if (!this.closed) {
+      this.proc.stdin!.end();
+      const timer = setTimeout(() => this.kill(), INTERRUPT_GRACE_MS);
+      await this.exited;
+      clearTimeout(timer);
+    }
+    await this.exited;
+  }
+
+  private onStdout(text: string, onReady: (version: string) => void): void {
+    this.buffer += text;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+
+      if (!line.startsWith(this.token)) {
+        if (this.pending) {
+          this.pending.stray = (this.pending.stray + line + '\n').slice(0, MAX_OUTPUT);
+        }
+        continue;
+      }
+
+      const message = JSON.parse(line.slice(this.token.length));
+      if (message.ready) {
+        onReady(message.python);
+      } else {
+        this.finish(message as KernelReply);
+      }
+    }
+
+    // Unframed output without newlines must not grow without bound
+    if (this.buffer.length > MAX_OUTPUT) {
+      this.stderr += '\nOutput limit exceeded; session ended';
+      this.kill('output_limit');
+    }
+  }
+
+  private kill(reason?: ExecutionStatus): void {
+    this.endedBy ??= reason;
+    killProcessGroup(this.proc, 'SIGKILL');
+  }
+
+  /**
+   * Forget the running cell, returning it for its result to be reported
+   */
+  private takePending(): PendingCell | undefined {
+    const pending = this.pending;
+    if (pending) {
+      clearTimeout(pending.timer);
+      pending.signal?.removeEventListener('abort', pending.onAbort);
+      this.pending = undefined;
+    }
+    return pending;
+  }
+
+  private finish(reply: KernelReply): void {
+    const pending = this.takePending();
+    if (!pending) {
+      return;
+    }
+
+    pending.resolve({
+      success: reply.success,
+      status: reply.success
+        ? 'ok'
+        : reply.timedOut ? 'timeout' : reply.cancelled ? 'cancelled' : 'nonzero_exit',
+      // Each is capped already; cutting the reply would drop the tail it kept
+      stdout: pending.stray + reply.stdout,
+      stderr: reply.stderr,
+      exitCode: reply.success ? 0 : 1,
+      error: reply.error,
+      limitExceeded: reply.success ? undefined : detectLimitExceeded(null, reply.stderr),
+    });
+  }
+
+  private onExit(code: number | null, signal: NodeJS.Signals | null): void {
+    this.closed = true;
+    // Processes a cell left running in the background end with the kernel
+    this.kill();
+    const pending = this.takePending();
+    if (!pending) {
+      return;
+    }
+
+    const limitExceeded = detectLimitExceeded(signal, this.stderr);
+    const message = limitExceeded
+      ? `Resource limit exceeded (${limitExceeded}); session ended`
+      : 'Python session ended during execution';
+    pending.resolve({
+      success: false,
+      status: this.endedBy ?? (signal ? 'signal' : 'nonzero_exit'),
+      stdout: pending.stray,
+      stderr: (this.stderr + '\n' + message).trim(),
+      exitCode: code ?? -1,
+      signal: signal ?? undefined,
+      error: message,
+      limitExceeded,
+    });
+  }
+}
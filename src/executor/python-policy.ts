@@ -0,0 +1,53 @@
+/**
+ * Python Policy Engine
+ * Checks Python code against the configured policy by walking its AST
+ * (see python/policy_check.py) instead of matching substrings
+ */
+
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { PolicyFinding, PythonPolicy } from '../types/index.js';
+import { PYTHON_DIR } from '../paths.js';
+
+const CHECKER_PATH = path.join(PYTHON_DIR, 'policy_check.py');
+const CHECK_TIMEOUT_MS = 10000;
+
+/**
+ * Parse the code with the given interpreter and return all policy findings.
+ * Throws if the checker itself cannot run, so code is never run unchecked.
+ */
+export function checkPythonPolicy(
+  code: string,
+  policy: PythonPolicy,
+  interpreter: string
+): Promise<PolicyFinding[]> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+
+    const proc = spawn(interpreter, [CHECKER_PATH], {
+      timeout: CHECK_TIMEOUT_MS,
+    });
+
+    proc.stdout.on('data', (data) => { stdout += data.toString(); });
+    proc.stderr.on('data', (data) => { stderr += data.toString(); });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`Policy check failed: ${stderr.trim() || `exit code ${code}`}`));
+        return;
+      }
+      try {
+        resolve(JSON.parse(stdout).findings as PolicyFinding[]);
+      } catch {
+        reject(new Error('Policy check failed: invalid checker output'));
+      }
+    });
+
+    proc.on('error', (error) => {
+      reject(new Error(`Policy check failed: ${error.message}`));
+    });
+
+    proc.stdin.end(JSON.stringify({ code, policy }));
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Resource Limits
+ * Applies rlimits (and cgroup v2 limits where a delegated cgroup is configured)
+ * to executed code, and works out which limit terminated a process
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  ExecutorConfig,
+  ResourceLimitKind,
+  ResourceUsage,
+  RuntimeDefinition,
+} from '../types/index.js';
+
+export interface LimitedCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Wrap an interpreter command line in a shell that sets rlimits and then
+ * execs the interpreter, so limits apply to the interpreter and its children.
+ * When a cgroup directory is given the shell joins it before exec.
+ */
+export function buildLimitedCommand(
+  command: string,
+  args: string[],
+  config: ExecutorConfig,
+  runtime: RuntimeDefinition,
+  cgroupDir?: string
+): LimitedCommand {
+  const lines: string[] = [];
+  const prefix: string[] = [];
+
+  if (cgroupDir) {
+    // The cgroup path is passed as $1 to avoid quoting it into the script
+    lines.push('echo $$ > "$1/cgroup.procs" || exit 125', 'shift');
+    prefix.push(cgroupDir);
+  }
+
+  // A limit that cannot be raised to the requested value is already stricter,
+  // and unsupported limits (e.g. -v on macOS) are skipped rather than failing
+  const limits: string[] = [
+    // Soft CPU limit raises SIGXCPU; the hard limit one second later guarantees termination
+    `-S -t ${config.maxCpuSeconds}`,
+    `-H -t ${config.maxCpuSeconds + 1}`,
+    `-n ${config.maxOpenFiles}`,
+    // POSIX sh counts file size in 512-byte blocks
+    `-f ${config.maxFileSizeMB * 2048}`,
+  ];
+  if (runtime.addressSpaceLimit !== false) {
+    limits.push(`-v ${config.maxMemoryMB * 1024}`);
+  }
+  limits.push(`-u ${config.maxProcesses}`);
+
+  for (const limit of limits) {
+    lines.push(`ulimit ${limit} 2>/dev/null || :`);
+  }
+
+  lines.push('exec "$@"');
+
+  return {
+    command: '/bin/sh',
+    args: ['-c', lines.join('\n'), 'mcp-exec', ...prefix, command, ...args],
+  };
+}
+
+/**
+ * Create a per-execution cgroup under the configured delegated root.
+ * Returns undefined when cgroups are not configured or not usable.
+ */
+export async function createCgroup(config: ExecutorConfig): Promise<string | undefined> {
+  if (!config.cgroupRoot) {
+    return undefined;
+  }
+
+  const cgroupDir = path.join(config.cgroupRoot, `mcp-exec-${randomUUID()}`);
+  try {
+    await fs.mkdir(cgroupDir);
+    await fs.writeFile(path.join(cgroupDir, 'memory.max'), String(config.maxMemoryMB * 1024 * 1024));
+    await fs.writeFile(path.join(cgroupDir, 'memory.swap.max'), '0').catch(() => undefined);
+    await fs.writeFile(path.join(cgroupDir, 'pids.max'), String(config.maxProcesses));
+    return cgroupDir;
+  } catch (error) {
+    console.error(
+      `cgroup limits unavailable under ${config.cgroupRoot}, using rlimits only:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    await fs.rmdir(cgroupDir).catch(() => undefined);
+    return undefined;
+  }
+}
+
+export interface CgroupReport {
+  limitExceeded?: ResourceLimitKind;
+  usage?: ResourceUsage;  // Absent on kernels without memory.peak (before 5.19)
+}
+
+/**
+ * Read which cgroup limits fired and what the processes used, then remove
+ * the cgroup
+ */
+export async function releaseCgroup(cgroupDir: string): Promise<CgroupReport> {
+  const report: CgroupReport = {};
+
+  const memoryEvents = await readEvents(path.join(cgroupDir, 'memory.events'));
+  const pidsEvents = await readEvents(path.join(cgroupDir, 'pids.events'));
+  if ((memoryEvents.oom_kill || 0) > 0) {
+    report.limitExceeded = 'memory';
+  } else if ((pidsEvents.max || 0) > 0) {
+    report.limitExceeded = 'processes';
+  }
+
+  const peakBytes = Number(
+    await fs.readFile(path.join(cgroupDir, 'memory.peak'), 'utf-8').catch(() => NaN)
+  );
+  const cpuStat = await readEvents(path.join(cgroupDir, 'cpu.stat'));
+  if (!Number.isNaN(peakBytes) && cpuStat.usage_usec !== undefined) {
+    report.usage = {
+      peakMemoryMB: Math.round(peakBytes / (1024 * 1024) * 10) / 10,
+      cpuSeconds: Math.round(cpuStat.usage_usec / 10000) / 100,
+      measuredBy: 'cgroup',
+    };
+  }
+
+  await fs.rmdir(cgroupDir).catch(() => undefined);
+  return report;
+}
+
+/**
+ * Parse a cgroup "key value" file such as memory.events or cpu.stat
+ */
+async function readEvents(file: string): Promise<Record<string, number>> {
+  const events: Record<string, number> = {};
+  try {
+    const content = await fs.readFile(file, 'utf-8');
+    for (const line of content.split('\n')) {
+      const [key, value] = line.trim().split(/\s+/);
+      if (key) {
+        events[key] = Number(value);
+      }
+    }
+  } catch {
+    // Missing controller or cgroup already gone
+  }
+  return events;
+}
+
+/**
+ * Infer which rlimit terminated a process from its signal and error output
+ */
+export function detectLimitExceeded(
+  signal: NodeJS.Signals | null,
+  stderr: string
+): ResourceLimitKind | undefined {
+  // Shells report children killed by these signals as "... limit exceeded"
+  if (signal === 'SIGXCPU' || /CPU time limit exceeded/.test(stderr)) {
+    return 'cpu';
+  }
+  if (signal === 'SIGXFSZ' || /File too large|File size limit exceeded|\[Errno 27\]/.test(stderr)) {
+    return 'file_size';
+  }
+  if (/MemoryError|Cannot allocate memory|cannot allocate \d+ bytes|heap out of memory|Fatal process OOM/.test(stderr)) {
+    return 'memory';
+  }
+  if (/Too many open files|\[Errno 24\]/.test(stderr)) {
+    return 'open_files';
+  }
+  if (/fork: (retry: )?Resource temporarily unavailable|can't start new thread|\[Errno 11\] Resource temporarily unavailable/.test(stderr)) {
+    return 'processes';
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable description of a limit for error messages
+ */
+export function describeLimit(kind: ResourceLimitKind, config: ExecutorConfig): string {
+  switch (kind) {
+    case 'memory':
+      return `memory limit exceeded (${config.maxMemoryMB} MB)`;
+    case 'cpu':
+      return `CPU time limit exceeded (${config.maxCpuSeconds} s)`;
+    case 'processes':
+      return `process limit exceeded (${config.maxProcesses} processes)`;
+    case 'open_files':
+      return `open file limit exceeded (${config.maxOpenFiles} files)`;
+    case 'file_size':
+      return `file size limit exceeded (${config.maxFileSizeMB} MB)`;
+  }
+}
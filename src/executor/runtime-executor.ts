@@ -0,0 +1,18 @@
+/**
+ * Generic Runtime Executor
+ * Runs code for any declared runtime (Node.js, Deno, Ruby, Perl, ...)
+ */
+
+import { ExecutorConfig, RuntimeDefinition } from '../types/index.js';
+import { BaseExecutor } from './base-executor.js';
+import { Sandbox } from './sandbox.js';
+
+export class RuntimeExecutor extends BaseExecutor {
+  constructor(
+    protected readonly runtime: RuntimeDefinition,
+    config?: ExecutorConfig,
+    sandbox?: Sandbox
+  ) {
+    super(config, sandbox);
+  }
+}
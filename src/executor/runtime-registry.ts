@@ -0,0 +1,119 @@
+/**
+ * Runtime Registry
+ * Tracks declared runtimes and probes the host to find which are installed
+ */
+
+import { spawn } from 'child_process';
+import { DetectedRuntime, RuntimeDefinition } from '../types/index.js';
+import { BUILTIN_RUNTIMES } from './runtimes.js';
+
+const PROBE_TIMEOUT_MS = 5000;
+
+export class RuntimeRegistry {
+  private definitions: RuntimeDefinition[];
+  private detected: Map<string, DetectedRuntime> = new Map();
+
+  /**
+   * Runtimes declared in config take precedence over built-ins for the same language
+   */
+  constructor(configured: RuntimeDefinition[] = []) {
+    for (const definition of configured) {
+      validateRuntimeDefinition(definition);
+    }
+    this.definitions = [...configured, ...BUILTIN_RUNTIMES];
+  }
+
+  /**
+   * Probe every declared runtime and keep the first working one per language
+   */
+  async detect(): Promise<DetectedRuntime[]> {
+    this.detected.clear();
+
+    const probes = await Promise.all(
+      this.definitions.map(async definition => ({
+        definition,
+        version: await probeVersion(definition),
+      }))
+    );
+
+    for (const { definition, version } of probes) {
+      if (version !== null && !this.detected.has(definition.language)) {
+        this.detected.set(definition.language, { definition, version });
+      }
+    }
+
+    return this.getDetected();
+  }
+
+  /**
+   * Get the detected runtime for a language
+   */
+  get(language: string): DetectedRuntime | undefined {
+    return this.detected.get(language);
+  }
+
+  /**
+   * All detected runtimes
+   */
+  getDetected(): DetectedRuntime[] {
+    return Array.from(this.detected.values());
+  }
+
+  /**
+   * Languages with a detected runtime
+   */
+  getLanguages(): string[] {
+    return Array.from(this.detected.keys());
+  }
+}
+
+/**
+ * Run a runtime's version probe; resolves to the version string or null if unavailable
+ */
+function probeVersion(definition: RuntimeDefinition): Promise<string | null> {
+  return new Promise((resolve) => {
+    let output = '';
+
+    const proc = spawn(definition.command, definition.versionProbe || ['--version'], {
+      env: {
+        ...process.env,
+        ...definition.env,
+      },
+      timeout: PROBE_TIMEOUT_MS,
+    });
+
+    // Some interpreters (e.g. older Python) print their version to stderr
+    proc.stdout.on('data', (data) => { output += data.toString(); });
+    proc.stderr.on('data', (data) => { output += data.toString(); });
+
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        resolve(null);
+        return;
+      }
+      resolve(output.trim().split('\n')[0] || 'unknown');
+    });
+
+    proc.on('error', () => resolve(null));
+  });
+}
+
+/**
+ * Validate a runtime declared in config
+ */
+function validateRuntimeDefinition(definition: RuntimeDefinition): void {
+  const label = definition?.language || JSON.stringify(definition);
+
+  if (!definition || typeof definition.language !== 'string' || definition.language === '') {
+    throw new Error(`Invalid runtime ${label}: "language" must be a non-empty string`);
+  }
+  if (typeof definition.command !== 'string' || definition.command === '') {
+    throw new Error(`Invalid runtime ${label}: "command" must be a non-empty string`);
+  }
+  if (typeof definition.extension !== 'string' || !definition.extension.startsWith('.')) {
+    throw new Error(`Invalid runtime ${label}: "extension" must start with "."`);
+  }
+  if (definition.args && !definition.args.some(arg => arg.includes('{script}'))) {
+    throw new Error(`Invalid runtime ${label}: "args" must contain a {script} placeholder`);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Built-in Runtime Definitions
+ * Interpreters the server knows how to run out of the box
+ */
+
+import { RuntimeDefinition } from '../types/index.js';
+
+export const PYTHON_RUNTIME: RuntimeDefinition = {
+  language: 'python',
+  extension: '.py',
+  command: 'python3',
+  env: {
+    PYTHONUNBUFFERED: '1',
+  },
+  versionProbe: ['--version'],
+  description: 'Python 3',
+};
+
+export const BASH_RUNTIME: RuntimeDefinition = {
+  language: 'bash',
+  extension: '.sh',
+  command: 'bash',
+  // Skip user profile/rc files so scripts run in a predictable environment
+  args: ['--noprofile', '--norc', '{script}'],
+  versionProbe: ['--version'],
+  description: 'Bash shell',
+};
+
+export const NODE_RUNTIME: RuntimeDefinition = {
+  language: 'javascript',
+  extension: '.mjs',
+  command: 'node',
+  args: ['--max-old-space-size={memoryMB}', '{script}'],
+  versionProbe: ['--version'],
+  addressSpaceLimit: false,
+  description: 'JavaScript (Node.js)',
+};
+
+export const DENO_TYPESCRIPT_RUNTIME: RuntimeDefinition = {
+  language: 'typescript',
+  extension: '.ts',
+  command: 'deno',
+  args: ['run', '--quiet', '--no-prompt', '--v8-flags=--max-old-space-size={memoryMB}', '{script}'],
+  env: {
+    NO_COLOR: '1',
+  },
+  versionProbe: ['--version'],
+  addressSpaceLimit: false,
+  description: 'TypeScript (Deno)',
+};
+
+export const NODE_TYPESCRIPT_RUNTIME: RuntimeDefinition = {
+  language: 'typescript',
+  extension: '.ts',
+  command: 'node',
+  args: ['--experimental-strip-types', '--no-warnings', '--max-old-space-size={memoryMB}', '{script}'],
+  // Older Node versions reject the flag, so the probe fails there
+  versionProbe: ['--experimental-strip-types', '--version'],
+  addressSpaceLimit: false,
+  description: 'TypeScript (Node.js type stripping)',
+};
+
+/**
+ * Built-in runtimes in preference order.
+ * When several runtimes share a language, the first one detected wins.
+ */
+export const BUILTIN_RUNTIMES: RuntimeDefinition[] = [
+  PYTHON_RUNTIME,
+  BASH_RUNTIME,
+  NODE_RUNTIME,
+  DENO_TYPESCRIPT_RUNTIME,
+  NODE_TYPESCRIPT_RUNTIME,
+];
@@ -0,0 +1,308 @@
+/**
+ * Filesystem Sandbox
+ * Runs executed code under bubblewrap so it only sees system paths, the
+ * declared read-only paths and its own writable scratch directory.
+ * Also provides network namespace isolation, with or without bubblewrap.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SandboxConfig } from '../types/index.js';
+
+const BWRAP = 'bwrap';
+const UNSHARE = 'unshare';
+
+// Install prefixes of interpreters from version managers, found from the
+// interpreter's real path: <prefix>/bin/<interpreter>, or <root>/shims/<name>
+const INTERPRETER_LAYOUTS = [
+  /^(.+\/\.pyenv\/versions\/[^/]+)\/bin\/[^/]+$/,
+  /^(.+\/\.pyenv)\/shims\/[^/]+$/,
+  /^(.+\/\.rbenv\/versions\/[^/]+)\/bin\/[^/]+$/,
+  /^(.+\/\.rbenv)\/shims\/[^/]+$/,
+  /^(.+\/\.nvm\/versions\/node\/[^/]+)\/bin\/[^/]+$/,
+  /^(.+\/\.volta\/tools\/image\/node\/[^/]+)\/bin\/[^/]+$/,
+  /^(.+\/\.asdf\/installs\/[^/]+\/[^/]+)\/bin\/[^/]+$/,
+  /^(.+\/\.local\/share\/uv\/python\/[^/]+)\/bin\/[^/]+$/,
+  /^(.+\/\.deno)\/bin\/[^/]+$/,
+  /^(.+\/(?:miniconda|anaconda|miniforge|mambaforge)[^/]*(?:\/envs\/[^/]+)?)\/bin\/[^/]+$/,
+];
+
+export interface SandboxOptions {
+  scratchDir: string;
+  readPaths?: string[];       // Validated per-call narrowing of the configured read-only paths
+  extraReadPaths?: string[];  // Server-owned helper files the runtime needs (e.g. Python guard)
+  writablePaths?: string[];   // Directories besides the scratch dir that may be written (session workspace)
+  isolateNetwork?: boolean;   // Run in a new network namespace with no external interfaces
+}
+
+export class Sandbox {
+  private available = false;
+  private unshareAvailable = false;
+  private prefixes: Map<string, Promise<string | undefined>> = new Map();
+
+  constructor(private config: SandboxConfig) {}
+
+  /**
+   * Check that bubblewrap works (it needs unprivileged user namespaces)
+   */
+  async initialize(): Promise<boolean> {
+    // Without bubblewrap, network namespaces can still come from unshare(1)
+    this.unshareAvailable = await probe(UNSHARE, ['--user', '--map-root-user', '--net', 'true']);
+
+    if (this.config.mode === 'off') {
+      this.available = false;
+      return false;
+    }
+
+    this.available = await probe(BWRAP, ['--unshare-user', '--ro-bind', '/', '/', 'true']);
+    if (!this.available) {
+      console.error(
+        this.config.mode === 'bwrap'
+          ? 'Sandbox: bubblewrap unavailable, executions will be refused (sandbox.mode = "bwrap")'
+          : 'Sandbox: bubblewrap unavailable, running without filesystem isolation'
+      );
+    }
+    return this.available;
+  }
+
+  /**
+   * Whether executions run inside the sandbox
+   */
+  isActive(): boolean {
+    return this.available;
+  }
+
+  /**
+   * Why executions run without filesystem isolation, or undefined when they are isolated
+   */
+  inactiveReason(): string | undefined {
+    if (this.available) {
+      return undefined;
+    }
+    return this.config.mode === 'off' ? 'sandbox.mode is "off"' : 'bubblewrap is unavailable';
+  }
+
+  /**
+   * Whether executions can be placed in their own network namespace
+   */
+  canIsolateNetwork(): boolean {
+    return this.available || this.unshareAvailable;
+  }
+
+  /**
+   * Read-only paths scripts may access
+   */
+  getReadOnlyPaths(): string[] {
+    return this.config.readOnlyPaths;
+  }
+
+  /**
+   * Wrap a command line so it runs inside the sandbox.
+   * Returns the command unchanged when the sandbox is off or unavailable in 'auto' mode.
+   */
+  async wrap(
+    command: string,
+    args: string[],
+    options: SandboxOptions
+  ): Promise<{ command: string; args: string[] }> {
+    if (!this.available) {
+      if (this.config.mode === 'bwrap') {
+        throw new Error('Sandbox required but bubblewrap is unavailable');
+      }
+      if (options.isolateNetwork && this.unshareAvailable) {
+        return {
+          command: UNSHARE,
+          args: ['--user', '--map-root-user', '--net', '--', command, ...args],
+        };
+      }
+      return { command, args };
+    }
+
+    const readPaths = options.readPaths || this.config.readOnlyPaths;
+
+    const bwrapArgs: string[] = [
+      '--die-with-parent',
+      '--unshare-user',
+      '--unshare-pid',
+      '--unshare-ipc',
+      '--unshare-uts',
+      ...(options.isolateNetwork ? ['--unshare-net'] : []),
+      '--proc', '/proc',
+      '--dev', '/dev',
+      '--tmpfs', '/tmp',
+    ];
+
+    for (const systemPath of this.config.systemPaths) {
+      bwrapArgs.push(...await bindArgs(systemPath));
+    }
+
+    // Interpreters installed outside the system paths (pyenv, nvm, ...)
+    const prefix = await this.interpreterPrefix(command);
+    if (prefix) {
+      bwrapArgs.push('--ro-bind', prefix, prefix);
+    }
+
+    for (const readPath of [...readPaths, ...(options.extraReadPaths || [])]) {
+      bwrapArgs.push('--ro-bind', readPath, readPath);
+    }
+
+    for (const writablePath of options.writablePaths || []) {
+      bwrapArgs.push('--bind', writablePath, writablePath);
+    }
+
+    bwrapArgs.push(
+      '--bind', options.scratchDir, options.scratchDir,
+      '--chdir', options.scratchDir,
+      '--setenv', 'HOME', options.scratchDir,
+      '--setenv', 'TMPDIR', options.scratchDir,
+      '--',
+      command,
+      ...args,
+    );
+
+    return { command: BWRAP, args: bwrapArgs };
+  }
+
+  /**
+   * Install prefix of an interpreter that lives outside the system paths
+   */
+  private async interpreterPrefix(command: string): Promise<string | undefined> {
+    if (!this.prefixes.has(command)) {
+      this.prefixes.set(
+        command,
+        findInterpreterPrefix(command, this.config.systemPaths, this.config.interpreterPaths || [])
+      );
+    }
+    return await this.prefixes.get(command);
+  }
+}
+
+/**
+ * Resolve a path and check it lies within one of the allowed paths.
+ * Symlinks are resolved first so they cannot point outside the allowed paths.
+ */
+export async function resolveAllowedPath(requested: string, allowed: string[]): Promise<string> {
+  let resolved: string;
+  try {
+    resolved = await fs.realpath(path.resolve(requested));
+  } catch {
+    throw new Error(`Path not found: ${requested}`);
+  }
+
+  for (const allowedPath of allowed) {
+    const root = await fs.realpath(allowedPath).catch(() => undefined);
+    if (root && (resolved === root || resolved.startsWith(root + path.sep) || root === path.sep)) {
+      return resolved;
+    }
+  }
+
+  throw new Error(
+    `Access denied: ${requested} is outside the allowed read paths (${allowed.join(', ')})`
+  );
+}
+
+/**
+ * Resolve a path that may be a glob pattern such as /var/log/nginx/access.log*.
+ * The directory before the first wildcard is checked like a path and is what
+ * gets mounted; the wildcard part may not leave it with "..".
+ */
+export async function resolveAllowedPattern(
+  requested: string,
+  allowed: string[]
+): Promise<{ pattern: string; root: string }> {
+  const segments = requested.split(path.sep);
+  const first = segments.findIndex(segment => /[*?[]/.test(segment));
+  if (first === -1) {
+    const resolved = await resolveAllowedPath(requested, allowed);
+    return { pattern: resolved, root: resolved };
+  }
+  const rest = segments.slice(first);
+  if (rest.includes('..')) {
+    throw new Error(`Access denied: ${requested} leaves its directory with ".."`);
+  }
+  const root = await resolveAllowedPath(segments.slice(0, first).join(path.sep) || '.', allowed);
+  return { pattern: path.join(root, ...rest), root };
+}
+
+/**
+ * Validate per-call read paths; each must lie within the configured paths
+ */
+export async function narrowReadPaths(requested: string[], allowed: string[]): Promise<string[]> {
+  return await Promise.all(requested.map(p => resolveAllowedPath(p, allowed)));
+}
+
+/**
+ * bwrap arguments exposing a system path read-only, preserving symlinks
+ * such as /bin -> usr/bin on merged-/usr systems
+ */
+async function bindArgs(systemPath: string): Promise<string[]> {
+  try {
+    const stat = await fs.lstat(systemPath);
+    if (stat.isSymbolicLink()) {
+      return ['--symlink', await fs.readlink(systemPath), systemPath];
+    }
+    return ['--ro-bind', systemPath, systemPath];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find an interpreter on PATH and return its install prefix
+ * (e.g. ~/.nvm/versions/node/v20 for ~/.nvm/versions/node/v20/bin/node)
+ * when it is not already covered by the system paths. Only configured
+ * interpreter paths and known version manager layouts are mounted, so an
+ * interpreter in ~/bin cannot expose the whole home directory.
+ */
+export async function findInterpreterPrefix(
+  command: string,
+  systemPaths: string[],
+  interpreterPaths: string[] = []
+): Promise<string | undefined> {
+  const candidates = command.includes('/')
+    ? [command]
+    : (process.env.PATH || '').split(path.delimiter).map(dir => path.join(dir, command));
+
+  for (const candidate of candidates) {
+    const real = await fs.realpath(candidate).catch(() => undefined);
+    if (!real) {
+      continue;
+    }
+
+    const within = (p: string) => real === p || real.startsWith(p + path.sep);
+    if (systemPaths.some(within)) {
+      return undefined;
+    }
+    const configured = interpreterPaths.find(within);
+    if (configured) {
+      return configured;
+    }
+    for (const layout of INTERPRETER_LAYOUTS) {
+      const match = layout.exec(real);
+      if (match) {
+        return match[1];
+      }
+    }
+    throw new Error(
+      `Interpreter ${real} is outside the sandbox's system paths; ` +
+      'add its install prefix to executor.sandbox.interpreterPaths'
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Check that a namespace tool is installed and can create a user namespace
+ */
+function probe(command: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, {
+      stdio: 'ignore',
+      timeout: 5000,
+    });
+    proc.on('close', (code) => resolve(code === 0));
+    proc.on('error', () => resolve(false));
+  });
+}
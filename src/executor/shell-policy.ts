@@ -0,0 +1,205 @@
+/**
+ * Shell Policy Engine
+ * Matches blocked/allowed commands against the command words of a shell
+ * script rather than raw substrings, so "summary" never matches "su"
+ */
+
+import * as path from 'path';
+import { ExecutionPolicy, PolicyFinding } from '../types/index.js';
+
+interface ShellToken {
+  text: string;
+  line: number;
+  column: number;
+  commandPosition: boolean;  // First word of a simple command
+}
+
+// Words after which the next word is a command again
+const KEYWORDS = new Set([
+  'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done',
+  'case', 'esac', 'in', 'function', 'select', '!', '[[', ']]', '{', '}',
+]);
+const COMMAND_PREFIXES = new Set(['time', 'nohup', 'exec', 'command', 'env', 'xargs', 'nice']);
+const SEPARATORS = new Set([';', '&', '|', '(', ')', '`', '\n']);
+
+/**
+ * Check a shell script against the blocked/allowed command policy
+ */
+export function checkShellPolicy(code: string, policy: ExecutionPolicy): PolicyFinding[] {
+  const findings: PolicyFinding[] = [];
+  const tokens = tokenize(code);
+
+  for (const blocked of policy.blockedCommands) {
+    if (!/^[\w\s./-]+$/.test(blocked)) {
+      // Punctuation-only patterns such as the fork bomb are matched literally
+      findings.push(...findLiteral(code, blocked, 'blocked-command'));
+      continue;
+    }
+
+    const [name, ...args] = blocked.trim().split(/\s+/);
+    tokens.forEach((token, index) => {
+      if (token.commandPosition && commandName(token.text) === name &&
+          argsMatch(tokens, index + 1, args)) {
+        findings.push({
+          rule: 'blocked-command',
+          message: `Blocked command detected: ${blocked}`,
+          line: token.line,
+          column: token.column,
+        });
+      }
+    });
+  }
+
+  if (policy.allowedCommands) {
+    for (const token of tokens) {
+      const name = commandName(token.text);
+      if (token.commandPosition && !KEYWORDS.has(name) && !policy.allowedCommands.includes(name)) {
+        findings.push({
+          rule: 'command-not-allowed',
+          message: `Command not in allowed commands: ${name}`,
+          line: token.line,
+          column: token.column,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Find literal occurrences of a pattern, ignoring whitespace
+ */
+function findLiteral(code: string, pattern: string, rule: PolicyFinding['rule']): PolicyFinding[] {
+  const findings: PolicyFinding[] = [];
+  const needle = pattern.replace(/\s+/g, '');
+
+  // Map positions in the whitespace-stripped text back to the original
+  const positions: number[] = [];
+  let haystack = '';
+  for (let i = 0; i < code.length; i++) {
+    if (!/\s/.test(code[i])) {
+      haystack += code[i];
+      positions.push(i);
+    }
+  }
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    const { line, column } = locate(code, positions[index]);
+    findings.push({
+      rule,
+      message: `Blocked command detected: ${pattern}`,
+      line,
+      column,
+    });
+    index = haystack.indexOf(needle, index + 1);
+  }
+
+  return findings;
+}
+
+/**
+ * Split a script into words, tracking which words are in command position
+ */
+function tokenize(code: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let expectCommand = true;
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (isSeparator(code, i) || (char === '$' && code[i + 1] === '(')) {
+      expectCommand = true;
+      i += char === '$' ? 2 : 1;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '#') {
+      while (i < code.length && code[i] !== '\n') i++;
+      continue;
+    }
+
+    // Read one word, keeping quoted sections together
+    const start = i;
+    let text = '';
+    while (i < code.length && !/\s/.test(code[i]) && !isSeparator(code, i)) {
+      if (code[i] === '$' && code[i + 1] === '(') break;
+      if (code[i] === '"' || code[i] === "'") {
+        const quote = code[i++];
+        while (i < code.length && code[i] !== quote) {
+          if (quote === '"' && code[i] === '\\') i++;
+          text += code[i++] ?? '';
+        }
+        i++;
+      } else {
+        text += code[i++];
+      }
+    }
+
+    const { line, column } = locate(code, start);
+    const isAssignment = expectCommand && /^[A-Za-z_][A-Za-z0-9_]*=/.test(text);
+    tokens.push({ text, line, column, commandPosition: expectCommand && !isAssignment });
+
+    if (expectCommand && !isAssignment) {
+      const name = commandName(text);
+      expectCommand = KEYWORDS.has(name) || COMMAND_PREFIXES.has(name);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Whether the character at an offset ends a simple command.
+ * The '&' of a redirection such as 2>&1 does not.
+ */
+function isSeparator(code: string, offset: number): boolean {
+  if (code[offset] === '&' && (code[offset - 1] === '>' || code[offset - 1] === '<')) {
+    return false;
+  }
+  return SEPARATORS.has(code[offset]);
+}
+
+/**
+ * Command name without its directory, so /bin/rm matches rm
+ */
+function commandName(word: string): string {
+  return word.includes('/') ? path.basename(word) : word;
+}
+
+/**
+ * Check that a blocked entry's arguments appear among the command's arguments.
+ * Short flags are compared letter by letter so "-rf" also matches "-fr" or "-r -f".
+ */
+function argsMatch(tokens: ShellToken[], from: number, required: string[]): boolean {
+  const args: string[] = [];
+  for (let i = from; i < tokens.length && !tokens[i].commandPosition; i++) {
+    args.push(tokens[i].text);
+  }
+
+  const flagLetters = new Set(
+    args.filter(a => /^-[A-Za-z]+$/.test(a)).flatMap(a => a.slice(1).split(''))
+  );
+
+  return required.every(arg => {
+    if (/^-[A-Za-z]+$/.test(arg)) {
+      return arg.slice(1).split('').every(letter => flagLetters.has(letter));
+    }
+    return args.includes(arg);
+  });
+}
+
+/**
+ * Convert a string offset to a 1-based line and column
+ */
+function locate(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return { line, column };
+}
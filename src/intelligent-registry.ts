@@ -4,22 +4,50 @@
  */
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_DISCOVERY, DiscoveryOptions } from './types/index.js';
+import { TermMatch, ToolMatch, ToolMatcher } from './tool-matcher.js';
 
 export interface ToolMetadata {
   tool: Tool;
   keywords: string[]; // Keywords that trigger this tool
   category: string;   // Tool category
   priority: number;   // Priority for ranking (higher = more important)
+  script?: string;    // Entrypoint run for this tool, relative to python/tools or absolute
+  language?: string;  // Runtime that runs the script (default: python)
+  timeout?: number;   // Execution timeout in milliseconds
+  pathArguments?: string[]; // Arguments holding file paths to validate and mount
+  globArguments?: string[]; // Path arguments that may also be glob patterns
+  argumentAliases?: Record<string, string>; // Former argument names, mapped to the current ones
+}
+
+/**
+ * Why a tool was discovered for a context
+ */
+export interface ToolExplanation {
+  tool: string;
+  score: number;
+  matches: TermMatch[];
 }
 
 export class IntelligentToolRegistry {
   private tools: Map<string, ToolMetadata> = new Map();
+  private matcher?: ToolMatcher;  // Built lazily, dropped when tools change
+
+  constructor(private options: DiscoveryOptions = DEFAULT_DISCOVERY) {}
 
   /**
    * Register a tool with metadata for intelligent discovery
    */
   register(metadata: ToolMetadata): void {
     this.tools.set(metadata.tool.name, metadata);
+    this.matcher = undefined;
+  }
+
+  /**
+   * Look up a registered tool by name
+   */
+  get(name: string): ToolMetadata | undefined {
+    return this.tools.get(name);
   }
 
   /**
@@ -32,31 +60,7 @@ export class IntelligentToolRegistry {
       return this.getAllTools();
     }
 
-    const contextLower = context.toLowerCase();
-    const scoredTools: Array<{ tool: Tool; score: number }> = [];
-
-    // Score each tool based on keyword matching
-    for (const [name, metadata] of this.tools.entries()) {
-      let score = 0;
-
-      // Check if any keywords match the context
-      for (const keyword of metadata.keywords) {
-        if (contextLower.includes(keyword.toLowerCase())) {
-          score += metadata.priority;
-        }
-      }
-
-      // Only include tools with non-zero scores
-      if (score > 0) {
-        scoredTools.push({ tool: metadata.tool, score });
-      }
-    }
-
-    // Sort by score (highest first)
-    scoredTools.sort((a, b) => b.score - a.score);
-
-    // Return tools in priority order
-    const discoveredTools = scoredTools.map(st => st.tool);
+    const discoveredTools = this.rank(context).map(match => match.metadata.tool);
 
     // If no tools discovered, return a generic fallback
     if (discoveredTools.length === 0) {
@@ -66,6 +70,20 @@ export class IntelligentToolRegistry {
     return discoveredTools;
   }
 
+  /**
+   * Tools scoring at least minScore for a context, best first, at most topK
+   */
+  private rank(context: string): ToolMatch[] {
+    if (!this.matcher) {
+      this.matcher = new ToolMatcher(Array.from(this.tools.values()));
+    }
+
+    return this.matcher
+      .match(context)
+      .filter(match => match.score >= this.options.minScore)
+      .slice(0, this.options.topK);
+  }
+
   /**
    * Get all tools (used when no context available)
    */
@@ -96,22 +114,32 @@ export class IntelligentToolRegistry {
   }
 
   /**
-   * Get statistics about tool discovery
+   * Get statistics about tool discovery, with an explanation of why each
+   * discovered tool matched the context
    */
   getStats(context?: string): {
     totalTools: number;
     discoveredTools: number;
     categories: string[];
+    explanations: ToolExplanation[];
   } {
     const discovered = this.discoverTools(context);
     const categories = Array.from(new Set(
       Array.from(this.tools.values()).map(m => m.category)
     ));
+    const explanations = context && context.trim() !== ''
+      ? this.rank(context).map(match => ({
+        tool: match.metadata.tool.name,
+        score: match.score,
+        matches: match.matches,
+      }))
+      : [];
 
     return {
       totalTools: this.tools.size,
       discoveredTools: discovered.length,
       categories,
+      explanations,
     };
   }
 }
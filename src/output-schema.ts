@@ -0,0 +1,63 @@
+/**
+ * Output Schemas
+ * Checks a tool's structured result against the outputSchema it declares,
+ * so clients can rely on structuredContent without checking it themselves
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation';
+import { ExecutionResult } from './types/index.js';
+
+type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const provider = new AjvJsonSchemaValidator();
+// Compiled once per schema object; reloaded tools bring new objects
+const validators = new WeakMap<OutputSchema, JsonSchemaValidator<unknown>>();
+
+/**
+ * Compile a schema, throwing when it is not a valid JSON schema
+ */
+export function compileOutputSchema(schema: OutputSchema): JsonSchemaValidator<unknown> {
+  let validator = validators.get(schema);
+  if (!validator) {
+    validator = provider.getValidator(schema);
+    validators.set(schema, validator);
+  }
+  return validator;
+}
+
+/**
+ * Why a result does not match the schema, or undefined when it does
+ */
+export function checkOutput(schema: OutputSchema, value: unknown): string | undefined {
+  const result = compileOutputSchema(schema)(value);
+  return result.valid ? undefined : result.errorMessage;
+}
+
+/**
+ * The structuredContent of a tool result: what the script wrote to its
+ * result file, when that is a JSON object matching the tool's schema. A
+ * tool with a schema that succeeded must have written one.
+ */
+export function structuredOutput(
+  result: ExecutionResult,
+  schema?: OutputSchema
+): { content?: Record<string, unknown>; problem?: string } {
+  const value = result.structured;
+  const content = isObject(value) ? value : undefined;
+  if (!schema) {
+    return { content };
+  }
+  if (!content) {
+    return result.success || value !== undefined
+      ? { problem: value === undefined ? 'no result was written' : 'the result is not a JSON object' }
+      : {};
+  }
+  const problem = checkOutput(schema, content);
+  return problem ? { problem } : { content };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
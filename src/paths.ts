@@ -0,0 +1,17 @@
+/**
+ * Install Paths
+ * Locations of files shipped alongside the compiled server
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Directory holding the Python helper scripts (resolved from build/ or src/)
+ */
+export const PYTHON_DIR = fileURLToPath(new URL('../python/', import.meta.url));
+
+/**
+ * Directory holding the built-in tool entrypoints, one script per tool
+ */
+export const TOOLS_DIR = path.join(PYTHON_DIR, 'tools');
@@ -0,0 +1,187 @@
+/**
+ * Plugin Tools
+ * Loads declarative tools from plugin directories. Each subdirectory holds a
+ * manifest.json describing the tool and the script that implements it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolMetadata } from './intelligent-registry.js';
+import { compileOutputSchema } from './output-schema.js';
+
+const MANIFEST_FILE = 'manifest.json';
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Contents of a plugin's manifest.json
+ */
+export interface PluginManifest {
+  name: string;
+  description: string;
+  inputSchema: Tool['inputSchema'];
+  outputSchema?: Tool['outputSchema'];  // Shape of what the script writes to MCP_RESULT_FILE
+  keywords: string[];
+  category: string;
+  priority: number;
+  script: string;            // Relative to the plugin directory
+  runtime?: string;          // Language of the runtime that runs the script (default: python)
+  timeout?: number;          // Milliseconds, capped by the server's maxTimeout
+  pathArguments?: string[];  // Arguments holding file paths to validate and mount
+}
+
+export interface PluginLoadResult {
+  tools: ToolMetadata[];
+  errors: string[];  // One message per plugin that was skipped
+}
+
+/**
+ * Load every plugin found in the given directories.
+ * Invalid plugins are skipped and reported, so one broken manifest does not
+ * keep the server from starting.
+ */
+export async function loadPlugins(directories: string[] = []): Promise<PluginLoadResult> {
+  const result: PluginLoadResult = { tools: [], errors: [] };
+  const names = new Set<string>();
+
+  for (const directory of directories) {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      result.errors.push(`Cannot read plugin directory ${directory}: ${errorMessage(error)}`);
+      continue;
+    }
+
+    const pluginDirs = entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of pluginDirs) {
+      const pluginDir = path.resolve(directory, name);
+      const manifestPath = path.join(pluginDir, MANIFEST_FILE);
+      try {
+        const tool = await loadPlugin(pluginDir, manifestPath);
+        if (names.has(tool.tool.name)) {
+          throw new Error(`duplicate tool name "${tool.tool.name}"`);
+        }
+        names.add(tool.tool.name);
+        result.tools.push(tool);
+      } catch (error) {
+        result.errors.push(`${manifestPath}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read and validate one plugin's manifest
+ */
+async function loadPlugin(pluginDir: string, manifestPath: string): Promise<ToolMetadata> {
+  let manifest: PluginManifest;
+  try {
+    manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      error instanceof SyntaxError
+        ? `invalid JSON: ${error.message}`
+        : `cannot read manifest: ${errorMessage(error)}`
+    );
+  }
+
+  validateManifest(manifest);
+
+  // Scripts must live inside their plugin directory
+  const scriptPath = path.resolve(pluginDir, manifest.script);
+  if (!scriptPath.startsWith(pluginDir + path.sep)) {
+    throw new Error(`"script" must be inside the plugin directory`);
+  }
+  try {
+    await fs.access(scriptPath);
+  } catch {
+    throw new Error(`script not found: ${manifest.script}`);
+  }
+
+  return {
+    tool: {
+      name: manifest.name,
+      description: manifest.description,
+      inputSchema: manifest.inputSchema,
+      outputSchema: manifest.outputSchema,
+    },
+    keywords: manifest.keywords,
+    category: manifest.category,
+    priority: manifest.priority,
+    script: scriptPath,
+    language: manifest.runtime || 'python',
+    timeout: manifest.timeout,
+    pathArguments: manifest.pathArguments,
+  };
+}
+
+/**
+ * Check field types; throws with the first problem found
+ */
+function validateManifest(manifest: PluginManifest): void {
+  if (!manifest || typeof manifest !== 'object') {
+    throw new Error('manifest must be a JSON object');
+  }
+  if (typeof manifest.name !== 'string' || !TOOL_NAME_PATTERN.test(manifest.name)) {
+    throw new Error('"name" must be 1-64 letters, digits, "_" or "-"');
+  }
+  if (typeof manifest.description !== 'string' || manifest.description === '') {
+    throw new Error('"description" must be a non-empty string');
+  }
+  if (!manifest.inputSchema || manifest.inputSchema.type !== 'object') {
+    throw new Error('"inputSchema" must be a JSON schema with type "object"');
+  }
+  if (manifest.outputSchema !== undefined) {
+    if (!manifest.outputSchema || manifest.outputSchema.type !== 'object') {
+      throw new Error('"outputSchema" must be a JSON schema with type "object"');
+    }
+    try {
+      compileOutputSchema(manifest.outputSchema);
+    } catch (error) {
+      throw new Error(`"outputSchema" is not a valid JSON schema: ${errorMessage(error)}`);
+    }
+  }
+  if (!isStringArray(manifest.keywords)) {
+    throw new Error('"keywords" must be an array of strings');
+  }
+  if (typeof manifest.category !== 'string' || manifest.category === '') {
+    throw new Error('"category" must be a non-empty string');
+  }
+  if (typeof manifest.priority !== 'number') {
+    throw new Error('"priority" must be a number');
+  }
+  if (typeof manifest.script !== 'string' || manifest.script === '') {
+    throw new Error('"script" must be a non-empty string');
+  }
+  if (manifest.runtime !== undefined && (typeof manifest.runtime !== 'string' || manifest.runtime === '')) {
+    throw new Error('"runtime" must be a non-empty string');
+  }
+  if (manifest.timeout !== undefined && (typeof manifest.timeout !== 'number' || manifest.timeout <= 0)) {
+    throw new Error('"timeout" must be a positive number of milliseconds');
+  }
+  if (manifest.pathArguments !== undefined && !isStringArray(manifest.pathArguments)) {
+    throw new Error('"pathArguments" must be an array of strings');
+  }
+
+  const properties = manifest.inputSchema.properties || {};
+  for (const name of manifest.pathArguments || []) {
+    if (!(name in properties)) {
+      throw new Error(`path argument "${name}" is not in inputSchema.properties`);
+    }
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
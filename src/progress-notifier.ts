@@ -0,0 +1,101 @@
+/**
+ * Progress Notifications
+ * Forwards execution events as MCP notifications/progress when the client
+ * sent a progress token with its tool call. Output is batched so a chatty
+ * script does not flood the client. The progress value is the percentage
+ * last reported by the script (total 100); MCP requires it to increase with
+ * every notification, so notifications without a new percentage add a
+ * thousandth, staying below the next whole percent. Output that finds no
+ * room left waits for the next percentage; the tool result has all of it.
+ */
+
+import { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { ExecutionListener } from './types/index.js';
+
+const FLUSH_INTERVAL_MS = 250;
+const STEPS_PER_PERCENT = 1000;  // Progress values are sent in thousandths of a percent
+
+type SendNotification = (notification: ServerNotification) => Promise<void>;
+
+export class ProgressNotifier {
+  private percent = 0;
+  private sent = -1;  // Last value sent, in thousandths of a percent
+  private output = { stdout: '', stderr: '' };
+  private timer?: NodeJS.Timeout;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private token: ProgressToken,
+    private sendNotification: SendNotification
+  ) {}
+
+  /**
+   * Listener to pass with the execution request
+   */
+  readonly listener: ExecutionListener = (event) => {
+    if (event.type === 'progress') {
+      // Output printed before the progress line goes out first, at the new
+      // percentage if the old one had no room left
+      this.flushOutput();
+      this.percent = Math.max(this.percent, event.percent ?? this.percent);
+      this.flushOutput();
+      this.send(event.message);
+      return;
+    }
+
+    this.output[event.stream] += event.text;
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flushOutput(), FLUSH_INTERVAL_MS);
+    }
+  };
+
+  /**
+   * Send remaining output; call before the tool result is returned
+   */
+  async close(): Promise<void> {
+    this.flushOutput();
+    await this.sending;
+  }
+
+  private flushOutput(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const { stdout, stderr } = this.output;
+    if (stdout && this.send(stdout)) {
+      this.output.stdout = '';
+    }
+    if (stderr && this.send(`[stderr] ${stderr}`)) {
+      this.output.stderr = '';
+    }
+  }
+
+  /**
+   * Send a notification with a value above the last one; false when the
+   * current percent has no room left
+   */
+  private send(message?: string): boolean {
+    const next = Math.max(Math.round(this.percent * STEPS_PER_PERCENT), this.sent + 1);
+    if (next >= (Math.floor(this.percent) + 1) * STEPS_PER_PERCENT) {
+      return false;
+    }
+    this.sent = next;
+
+    const params = { progressToken: this.token, progress: next / STEPS_PER_PERCENT, total: 100, message };
+    // Keep notifications in order; a client that went away is not an execution error
+    this.sending = this.sending
+      .then(() => this.sendNotification({ method: 'notifications/progress', params }))
+      .catch(() => undefined);
+    return true;
+  }
+}
+
+/**
+ * Notifier for a tool call, if the client asked for progress
+ */
+export function createProgressNotifier(
+  token: ProgressToken | undefined,
+  sendNotification: SendNotification
+): ProgressNotifier | undefined {
+  return token === undefined ? undefined : new ProgressNotifier(token, sendNotification);
+}
@@ -11,380 +11,365 @@
  * - Improves performance with lazy loading
  */
 
+import { fileURLToPath } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { PythonExecutor } from './executor/python-executor.js';
-import { ExecutionRequest } from './types/index.js';
-import { IntelligentToolRegistry } from './intelligent-registry.js';
-import { TOOL_DEFINITIONS } from './tools-definitions.js';
+import { ExecutorDispatcher } from './executor/index.js';
+import {
+  DEFAULT_DISCOVERY,
+  DEFAULT_KERNEL_CONFIG,
+  DiscoveryOptions,
+  ExecutionControl,
+  ServerConfig,
+} from './types/index.js';
+import {
+  loadServerConfig,
+  resolveExecutorConfig,
+  resolveJobConfig,
+  resolveOutputConfig,
+} from './config.js';
+import { IntelligentToolRegistry, ToolMetadata } from './intelligent-registry.js';
+import { SET_CONTEXT_TOOL } from './tools-definitions.js';
+import { ToolHandlers } from './tool-handlers.js';
+import { ArtifactStore } from './executor/artifact-store.js';
+import { JobManager } from './executor/job-manager.js';
+import { KernelManager } from './executor/kernel-manager.js';
+import { loadPlugins } from './plugins.js';
+import { ToolWatcher } from './tool-watcher.js';
+import { Session } from './session.js';
+import { createProgressNotifier } from './progress-notifier.js';
+import { registerArtifactResources } from './artifact-resources.js';
+import { resolveTransportOptions, serveSessions, TransportOptions } from './transport.js';
+
+// Compiled tool definitions, re-imported when they change
+const DEFINITIONS_URL = new URL('./tools-definitions.js', import.meta.url);
 
 /**
  * MCP 2.0 Server with Intelligent Tool Discovery
  */
 class IntelligentCodeExecutionServer {
-  private server: Server;
-  private pythonExecutor: PythonExecutor;
+  private executor: ExecutorDispatcher;
+  private kernels: KernelManager;
+  private jobs: JobManager;
+  private artifacts: ArtifactStore;
+  private handlers: ToolHandlers;
   private toolRegistry: IntelligentToolRegistry;
-  private lastUserQuery: string = '';
+  private sessions: Map<Session, Server> = new Map();  // Connected sessions, notified on reload
+  private discovery: DiscoveryOptions;
+  private pluginDirs: string[];
+  private toolWatcher?: ToolWatcher;
+  private definitionsVersion = 0;
+
+  constructor(private config: ServerConfig = {}) {
+    this.executor = new ExecutorDispatcher(config.runtimes, resolveExecutorConfig(config));
+    this.kernels = new KernelManager(this.executor, { ...DEFAULT_KERNEL_CONFIG, ...config.kernels });
+    this.artifacts = new ArtifactStore(resolveOutputConfig(config));
+    this.jobs = new JobManager(this.executor, resolveJobConfig(config), this.artifacts);
+    this.handlers = new ToolHandlers(
+      this.executor,
+      this.kernels,
+      this.jobs,
+      this.artifacts,
+      name => this.toolRegistry.get(name)
+    );
+    this.discovery = { ...DEFAULT_DISCOVERY, ...config.discovery };
+    this.toolRegistry = new IntelligentToolRegistry(this.discovery);
+    this.pluginDirs = config.plugins || [];
+    if (config.hotReload !== false) {
+      this.toolWatcher = new ToolWatcher(
+        [fileURLToPath(DEFINITIONS_URL)],
+        this.pluginDirs,
+        () => this.reloadTools()
+      );
+    }
 
-  constructor() {
-    this.server = new Server(
+    console.error('MCP 2.0 Intelligent Tool Discovery Enabled ✓');
+  }
+
+  /**
+   * Create the MCP server for one client session. Sessions share the
+   * executor and tool registry; discovery context, quota and workspace are
+   * the session's own.
+   */
+  private createSessionServer(session: Session): Server {
+    const server = new Server(
       {
         name: 'mcp-code-execution-intelligent',
         version: '2.0.0',
       },
       {
         capabilities: {
-          tools: {},
+          // Tools are re-registered when their sources change
+          tools: { listChanged: true },
+          // Artifacts: files written by executions and output too long for a result
+          resources: {},
           // Intelligent tool discovery based on context tracking
         },
       }
     );
 
-    this.pythonExecutor = new PythonExecutor();
-    this.toolRegistry = new IntelligentToolRegistry();
+    this.setupHandlers(server, session);
+    registerArtifactResources(server, this.artifacts, session.client);
+    server.onerror = (error) => {
+      console.error(`[MCP Error] session ${session.id}:`, error);
+    };
+    server.onclose = () => {
+      this.sessions.delete(session);
+    };
+    session.onClose(() => this.kernels.closeOwnedBy(session.id));
+    this.sessions.set(session, server);
+    return server;
+  }
+
+  /**
+   * Register all tools in a fresh registry, then swap it in so tool lists
+   * never see a half-built registry.
+   * Runs after runtime detection so execute_code only advertises installed runtimes
+   */
+  private async registerTools(): Promise<void> {
+    const registry = new IntelligentToolRegistry(this.discovery);
+    const definitions = await this.loadToolDefinitions();
+    for (const toolDef of definitions) {
+      registry.register(this.handlers.advertise(toolDef));
+    }
 
-    // Register all tools with metadata
-    this.registerTools();
-    this.setupHandlers();
-    this.setupErrorHandling();
+    // Plugins may not shadow built-in tools or use runtimes missing on this host
+    const plugins = await loadPlugins(this.pluginDirs);
+    const errors = [...plugins.errors];
+    let pluginCount = 0;
+    for (const plugin of plugins.tools) {
+      if (registry.get(plugin.tool.name)) {
+        errors.push(`${plugin.tool.name}: a built-in tool has the same name`);
+      } else if (!this.executor.supports(plugin.language || 'python')) {
+        errors.push(`${plugin.tool.name}: runtime "${plugin.language}" is not available`);
+      } else {
+        registry.register(plugin);
+        pluginCount++;
+      }
+    }
 
-    console.error('MCP 2.0 Intelligent Tool Discovery Enabled ✓');
+    for (const error of errors) {
+      console.error(`Skipping plugin: ${error}`);
+    }
+    this.toolRegistry = registry;
+    console.error(
+      `Registered ${definitions.length} built-in and ${pluginCount} plugin tools for intelligent discovery`
+    );
+  }
+
+  /**
+   * Import the compiled tool definitions. Each load gets a new module URL so
+   * a rebuilt tools-definitions.js is evaluated again instead of served from
+   * the module cache.
+   */
+  private async loadToolDefinitions(): Promise<ToolMetadata[]> {
+    const url = `${DEFINITIONS_URL.href}?v=${++this.definitionsVersion}`;
+    const module: typeof import('./tools-definitions.js') = await import(url);
+    return module.TOOL_DEFINITIONS;
   }
 
   /**
-   * Register all tools in the intelligent registry
+   * Re-register tools after their sources changed and tell clients to
+   * refresh their tool lists. A failed reload keeps the previous tools.
    */
-  private registerTools(): void {
-    for (const toolDef of TOOL_DEFINITIONS) {
-      this.toolRegistry.register(toolDef);
+  private async reloadTools(): Promise<void> {
+    try {
+      console.error('Tool sources changed, reloading tools');
+      await this.registerTools();
+      await this.toolWatcher?.start();
+      await Promise.all(
+        Array.from(this.sessions.values()).map(server =>
+          server.sendToolListChanged().catch(() => undefined)
+        )
+      );
+    } catch (error) {
+      console.error('Tool reload failed, keeping previous tools:', error);
     }
-    console.error(`Registered ${TOOL_DEFINITIONS.length} tools for intelligent discovery`);
   }
 
   /**
    * Setup request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, session: Session): void {
     // List tools handler - Returns only relevant tools based on context
-    // MCP 2.0 Intelligent Discovery: Tools are filtered based on query context
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      // Use intelligent discovery based on last user query
-      const discoveredTools = this.toolRegistry.discoverTools(this.lastUserQuery);
-      const stats = this.toolRegistry.getStats(this.lastUserQuery);
+    // MCP 2.0 Intelligent Discovery: Tools are filtered based on the session's context,
+    // which a client may also pass as _meta.context on the request
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      const metaContext = request.params?._meta?.context;
+      if (typeof metaContext === 'string') {
+        session.context.set(metaContext);
+      }
 
+      const tools = this.discoverTools(session);
+      session.context.updateAdvertised(tools.map(tool => tool.name));
+
+      const context = session.context.toString();
+      const stats = this.toolRegistry.getStats(context);
       console.error(
         `Tool Discovery: ${stats.discoveredTools}/${stats.totalTools} tools ` +
-        `(Context: "${this.lastUserQuery.substring(0, 40)}...")`
+        `(Context: "${context.substring(0, 40)}...")`
       );
 
-      // Log which tools were discovered
-      discoveredTools.forEach((tool, idx) => {
-        console.error(`  ${idx + 1}. ${tool.name}`);
+      // Log which tools were discovered, and why
+      tools.forEach((tool, idx) => {
+        const explanation = stats.explanations.find(e => e.tool === tool.name);
+        const why = explanation
+          ? ` (score ${explanation.score}: ${explanation.matches.map(m => m.term).join(', ')})`
+          : '';
+        console.error(`  ${idx + 1}. ${tool.name}${why}`);
       });
 
-      return { tools: discoveredTools };
+      return { tools };
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const toolName = request.params.name;
-      const args = request.params.arguments;
+      const args = request.params.arguments || {};
 
       console.error(`Executing tool: ${toolName}`);
 
-      // Route to appropriate handler based on tool name
-      switch (toolName) {
-        case 'analyze_nginx_logs':
-          return await this.handleAnalyzeNginxLogs(args);
-
-        case 'analyze_docker_logs':
-          return await this.handleAnalyzeDockerLogs(args);
-
-        case 'validate_kubernetes_yaml':
-          return await this.handleValidateK8sYaml(args);
-
-        case 'check_system_health':
-          return await this.handleSystemHealth(args);
-
-        case 'execute_code':
-          return await this.handleExecuteCode(args);
-
-        case 'validate_config_file':
-          return await this.handleValidateConfig(args);
-
-        case 'analyze_log_patterns':
-          return await this.handleAnalyzeLogPatterns(args);
-
-        default:
-          throw new Error(`Unknown tool: ${toolName}`);
+      if (toolName === SET_CONTEXT_TOOL.name) {
+        return await this.handleSetContext(server, session, args);
       }
-    });
-  }
 
-  /**
-   * Handle nginx log analysis
-   */
-  private async handleAnalyzeNginxLogs(args: any) {
-    const code = `
-import json
-import re
-from collections import Counter
-
-log_file = "${args.log_file_path}"
-analysis_type = "${args.analysis_type || 'full'}"
-
-# Load pre-built analyzer
-with open('examples/analyze-logs.py', 'r') as f:
-    exec(f.read())
-
-result = parse_nginx_log(log_file)
-print(json.dumps(result, indent=2))
-`;
+      // Stream output while the tool runs when the client asked for progress
+      const progress = createProgressNotifier(
+        request.params._meta?.progressToken,
+        extra.sendNotification
+      );
+      let response;
+      try {
+        response = await this.callTool(session, toolName, args, {
+          listener: progress?.listener,
+          signal: extra.signal,
+        });
+      } finally {
+        await progress?.close();
+      }
 
-    return await this.executePythonCode(code);
-  }
+      // What the session just did is context for what it needs next
+      session.context.recordCall(toolName, args);
+      await this.notifyIfToolsChanged(server, session);
 
-  /**
-   * Handle docker log analysis
-   */
-  private async handleAnalyzeDockerLogs(args: any) {
-    const code = `
-import json
-
-# Docker logs are typically in /var/lib/docker/containers/ or provided path
-log_path = "${args.container_name_or_id}"
-print(json.dumps({
-    "message": "Docker log analysis",
-    "container": log_path,
-    "note": "Analyze docker logs here - implementation specific to environment"
-}))
-`;
-
-    return await this.executePythonCode(code);
+      return response;
+    });
   }
 
   /**
-   * Handle Kubernetes YAML validation
+   * Route a tool call to execute_code, the Python session tools, the job
+   * tools, get_artifact or the tool's script
    */
-  private async handleValidateK8sYaml(args: any) {
-    const code = `
-import json
-import yaml
-
-try:
-    with open("${args.yaml_file_path}", 'r') as f:
-        docs = list(yaml.safe_load_all(f))
-
-    results = {
-        "valid": True,
-        "documents": len(docs),
-        "resources": [doc.get('kind', 'Unknown') for doc in docs if doc],
-        "recommendations": []
+  private async callTool(
+    session: Session,
+    toolName: string,
+    args: Record<string, unknown>,
+    control: ExecutionControl
+  ) {
+    const response = await this.handlers.call(session, toolName, args, control);
+    if (response) {
+      return response;
     }
 
-    # Check best practices
-    if ${args.check_best_practices || true}:
-        for doc in docs:
-            if not doc:
-                continue
-            if 'resources' not in doc.get('spec', {}).get('template', {}).get('spec', {}).get('containers', [{}])[0]:
-                results["recommendations"].append("Consider adding resource limits/requests")
-
-    print(json.dumps(results, indent=2))
-except Exception as e:
-    print(json.dumps({"valid": False, "error": str(e)}))
-`;
-
-    return await this.executePythonCode(code);
-  }
-
-  /**
-   * Handle system health check
-   */
-  private async handleSystemHealth(args: any) {
-    const code = `
-import json
-import shutil
-
-# Check disk space
-total, used, free = shutil.disk_usage("/")
-disk_percent = (used / total) * 100
-
-result = {
-    "disk": {
-        "total_gb": round(total / (1024**3), 2),
-        "used_gb": round(used / (1024**3), 2),
-        "free_gb": round(free / (1024**3), 2),
-        "used_percent": round(disk_percent, 2),
-        "alert": disk_percent > ${args.threshold_disk_percent || 80}
-    },
-    "overall_health": "OK" if disk_percent < ${args.threshold_disk_percent || 80} else "WARNING"
-}
-
-print(json.dumps(result, indent=2))
-`;
-
-    return await this.executePythonCode(code);
+    // Every other tool, built-in or plugin, runs its entrypoint script
+    const metadata = this.toolRegistry.get(toolName);
+    if (!metadata?.script) {
+      throw new Error(`Unknown tool: ${toolName}`);
+    }
+    return await this.handlers.runScript(session, metadata, args, control);
   }
 
   /**
-   * Handle generic code execution
+   * Tools to list for the session's current context; set_context is always included
    */
-  private async handleExecuteCode(args: any) {
-    return await this.executePythonCode(args.code, args.timeout);
+  private discoverTools(session: Session): Tool[] {
+    return [...this.toolRegistry.discoverTools(session.context.toString()), SET_CONTEXT_TOOL];
   }
 
   /**
-   * Handle config validation
+   * Send tools/list_changed when the tools for the current context differ
+   * from the ones the client last listed
    */
-  private async handleValidateConfig(args: any) {
-    const code = `
-import json
-import yaml
-
-try:
-    with open("${args.file_path}", 'r') as f:
-        content = f.read()
-
-    file_type = "${args.file_type}"
-    if file_type == "auto":
-        file_type = "${args.file_path}".split('.')[-1]
-
-    if file_type in ['yaml', 'yml']:
-        data = yaml.safe_load(content)
-    elif file_type == 'json':
-        data = json.loads(content)
-
-    result = {
-        "valid": True,
-        "file_type": file_type,
-        "keys": list(data.keys()) if isinstance(data, dict) else None
+  private async notifyIfToolsChanged(server: Server, session: Session): Promise<void> {
+    const names = this.discoverTools(session).map(tool => tool.name);
+    if (session.context.updateAdvertised(names)) {
+      await server.sendToolListChanged();
     }
-    print(json.dumps(result, indent=2))
-except Exception as e:
-    print(json.dumps({"valid": False, "error": str(e)}))
-`;
-
-    return await this.executePythonCode(code);
-  }
-
-  /**
-   * Handle log pattern analysis
-   */
-  private async handleAnalyzeLogPatterns(args: any) {
-    const pattern = args.pattern || 'ERROR|WARN|CRITICAL';
-    const code = `
-import json
-import re
-
-matches = []
-with open("${args.log_file_path}", 'r') as f:
-    for i, line in enumerate(f, 1):
-        if re.search(r"${pattern}", line, re.IGNORECASE):
-            matches.append({"line": i, "content": line.strip()[:100]})
-
-result = {
-    "total_matches": len(matches),
-    "pattern": "${pattern}",
-    "matches": matches[:10]  # Top 10
-}
-print(json.dumps(result, indent=2))
-`;
-
-    return await this.executePythonCode(code);
   }
 
   /**
-   * Execute Python code helper
+   * Handle set_context: update the session's context and return the tools now relevant
    */
-  private async executePythonCode(code: string, timeout?: number) {
-    try {
-      const execRequest: ExecutionRequest = {
-        language: 'python',
-        code: code,
-        timeout: timeout ? Math.min(timeout, 30000) : 30000,
-      };
-
-      const result = await this.pythonExecutor.execute(execRequest);
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                success: result.success,
-                exitCode: result.exitCode,
-                executionTime: result.executionTime,
-                stdout: result.stdout,
-                stderr: result.stderr,
-                error: result.error,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                success: false,
-                error: error instanceof Error ? error.message : String(error),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
+  private async handleSetContext(server: Server, session: Session, args: Record<string, unknown>) {
+    if (typeof args.context !== 'string') {
+      return this.handlers.errorResponse(new Error('Missing or invalid "context" parameter'));
     }
-  }
 
-  /**
-   * Setup error handling
-   */
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
+    session.context.set(args.context);
+    const tools = this.discoverTools(session);
+    const { explanations } = this.toolRegistry.getStats(session.context.toString());
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              context: args.context,
+              tools: tools.map(tool => {
+                const explanation = explanations.find(e => e.tool === tool.name);
+                return {
+                  name: tool.name,
+                  description: tool.description,
+                  score: explanation?.score,
+                  matchedTerms: explanation?.matches.map(m => m.term),
+                };
+              }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
     };
 
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    await this.notifyIfToolsChanged(server, session);
+    return response;
   }
 
   /**
    * Start the server
    */
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('MCP 2.0 Intelligent Code Execution Server running on stdio');
+  async start(transport: TransportOptions): Promise<void> {
+    const runtimes = await this.executor.initialize();
+    console.error(
+      `Detected runtimes: ${runtimes.map(r => `${r.definition.language} (${r.version})`).join(', ')}`
+    );
+    const sandbox = this.executor.getSandbox();
+    const inactive = sandbox.inactiveReason();
+    console.error(
+      `Sandbox: ${inactive ? `INACTIVE (${inactive}), no filesystem isolation` : 'bubblewrap'}, ` +
+      `read-only paths: ${sandbox.getReadOnlyPaths().join(', ')}`
+    );
+    console.error(`Network: ${this.executor.getNetworkPolicy().mode}`);
+    await this.jobs.open();
+    await this.artifacts.open();
+    await this.registerTools();
+    await this.toolWatcher?.start();
+
+    await serveSessions(transport, this.config, session => this.createSessionServer(session));
+    console.error(`MCP 2.0 Intelligent Code Execution Server running on ${transport.mode}`);
     console.error('Intelligent tool discovery active - tools loaded based on context!');
   }
 }
 
 // Start the server
-const server = new IntelligentCodeExecutionServer();
-server.start().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+loadServerConfig()
+  .then((config) => new IntelligentCodeExecutionServer(config).start(resolveTransportOptions(config)))
+  .catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
@@ -6,24 +6,64 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { PythonExecutor } from './executor/python-executor.js';
-import { ExecutionRequest } from './types/index.js';
+import { ExecutorDispatcher } from './executor/index.js';
+import { ArtifactStore } from './executor/artifact-store.js';
+import { JobManager } from './executor/job-manager.js';
+import { KernelManager } from './executor/kernel-manager.js';
+import { DEFAULT_KERNEL_CONFIG, ServerConfig } from './types/index.js';
+import {
+  loadServerConfig,
+  resolveExecutorConfig,
+  resolveJobConfig,
+  resolveOutputConfig,
+} from './config.js';
+import { TOOL_DEFINITIONS } from './tools-definitions.js';
+import { ToolHandlers } from './tool-handlers.js';
+import { Session } from './session.js';
+import { createProgressNotifier } from './progress-notifier.js';
+import { registerArtifactResources } from './artifact-resources.js';
+import { resolveTransportOptions, serveSessions, TransportOptions } from './transport.js';
+
+// Script tools that submit_job may run, although only the execution tools are listed
+const SCRIPT_TOOLS = new Map(
+  TOOL_DEFINITIONS.filter(definition => definition.script).map(definition => [definition.tool.name, definition])
+);
 
 /**
  * MCP Server for Code Execution
  */
 class CodeExecutionServer {
-  private server: Server;
-  private pythonExecutor: PythonExecutor;
+  private executor: ExecutorDispatcher;
+  private kernels: KernelManager;
+  private jobs: JobManager;
+  private artifacts: ArtifactStore;
+  private handlers: ToolHandlers;
+  private tools: Tool[] = [];  // Execution tools as advertised on this host
+
+  constructor(private config: ServerConfig = {}) {
+    this.executor = new ExecutorDispatcher(config.runtimes, resolveExecutorConfig(config));
+    this.kernels = new KernelManager(this.executor, { ...DEFAULT_KERNEL_CONFIG, ...config.kernels });
+    this.artifacts = new ArtifactStore(resolveOutputConfig(config));
+    this.jobs = new JobManager(this.executor, resolveJobConfig(config), this.artifacts);
+    this.handlers = new ToolHandlers(
+      this.executor,
+      this.kernels,
+      this.jobs,
+      this.artifacts,
+      name => SCRIPT_TOOLS.get(name)
+    );
+  }
 
-  constructor() {
-    this.server = new Server(
+  /**
+   * Create the MCP server for one client session
+   */
+  private createSessionServer(session: Session): Server {
+    const server = new Server(
       {
         name: 'mcp-code-execution',
         version: '1.0.0',
@@ -31,164 +71,81 @@ class CodeExecutionServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
         },
       }
     );
 
-    this.pythonExecutor = new PythonExecutor();
-    this.setupHandlers();
-    this.setupErrorHandling();
+    this.setupHandlers(server, session);
+    registerArtifactResources(server, this.artifacts, session.client);
+    session.onClose(() => this.kernels.closeOwnedBy(session.id));
+    server.onerror = (error) => {
+      console.error(`[MCP Error] session ${session.id}:`, error);
+    };
+    return server;
   }
 
   /**
    * Setup request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, session: Session): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools: Tool[] = [
-        {
-          name: 'execute_code',
-          description:
-            'Execute Python code in a secure sandbox. ' +
-            'Perfect for analyzing logs, validating configs, or processing data locally. ' +
-            'Returns execution results with stdout, stderr, and exit code. ' +
-            'HUGE TOKEN SAVINGS: Process large files locally and return only summaries!',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              language: {
-                type: 'string',
-                enum: ['python'],
-                description: 'Programming language (currently only Python supported)',
-                default: 'python',
-              },
-              code: {
-                type: 'string',
-                description: 'The Python code to execute',
-              },
-              timeout: {
-                type: 'number',
-                description: 'Execution timeout in milliseconds (default: 30000, max: 30000)',
-                default: 30000,
-                maximum: 30000,
-              },
-            },
-            required: ['code'],
-          },
-        },
-      ];
-
-      return { tools };
-    });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: this.tools }));
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      if (request.params.name === 'execute_code') {
-        return await this.handleExecuteCode(request.params.arguments);
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const args = request.params.arguments || {};
+      // Stream output while the code runs when the client asked for progress
+      const progress = createProgressNotifier(
+        request.params._meta?.progressToken,
+        extra.sendNotification
+      );
+      try {
+        const response = await this.handlers.call(session, request.params.name, args, {
+          listener: progress?.listener,
+          signal: extra.signal,
+        });
+        if (response) {
+          return response;
+        }
+      } finally {
+        await progress?.close();
       }
 
       throw new Error(`Unknown tool: ${request.params.name}`);
     });
   }
 
-  /**
-   * Handle execute_code tool call
-   */
-  private async handleExecuteCode(args: any) {
-    try {
-      // Validate arguments
-      if (!args.code || typeof args.code !== 'string') {
-        throw new Error('Missing or invalid "code" parameter');
-      }
-
-      const language = args.language || 'python';
-      if (language !== 'python') {
-        throw new Error(`Unsupported language: ${language}. Currently only Python is supported.`);
-      }
-
-      // Prepare execution request
-      const execRequest: ExecutionRequest = {
-        language: 'python',
-        code: args.code,
-        timeout: args.timeout ? Math.min(args.timeout, 30000) : 30000,
-      };
-
-      // Execute code
-      const result = await this.pythonExecutor.execute(execRequest);
-
-      // Return results
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                success: result.success,
-                exitCode: result.exitCode,
-                executionTime: result.executionTime,
-                stdout: result.stdout,
-                stderr: result.stderr,
-                error: result.error,
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                success: false,
-                error: error instanceof Error ? error.message : String(error),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
-  }
-
-  /**
-   * Setup error handling
-   */
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
-    };
-
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-  }
-
   /**
    * Start the server
    */
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('MCP Code Execution Server running on stdio');
+  async start(transport: TransportOptions): Promise<void> {
+    const runtimes = await this.executor.initialize();
+    console.error(
+      `Detected runtimes: ${runtimes.map(r => `${r.definition.language} (${r.version})`).join(', ')}`
+    );
+    const sandbox = this.executor.getSandbox();
+    const inactive = sandbox.inactiveReason();
+    console.error(
+      `Sandbox: ${inactive ? `INACTIVE (${inactive}), no filesystem isolation` : 'bubblewrap'}, ` +
+      `read-only paths: ${sandbox.getReadOnlyPaths().join(', ')}`
+    );
+    console.error(`Network: ${this.executor.getNetworkPolicy().mode}`);
+    await this.jobs.open();
+    await this.artifacts.open();
+    this.tools = TOOL_DEFINITIONS
+      .filter(definition => definition.category === 'execution')
+      .map(definition => this.handlers.advertise(definition).tool);
+
+    await serveSessions(transport, this.config, session => this.createSessionServer(session));
+    console.error(`MCP Code Execution Server running on ${transport.mode}`);
   }
 }
 
 // Start the server
-const server = new CodeExecutionServer();
-server.start().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+loadServerConfig()
+  .then((config) => new CodeExecutionServer(config).start(resolveTransportOptions(config)))
+  .catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
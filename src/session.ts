@@ -0,0 +1,69 @@
+/**
+ * Client Sessions
+ * Per-client state kept for the lifetime of an MCP session: discovery
+ * context, execution rate quota and a private workspace directory
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionQuota } from './types/index.js';
+import { DiscoveryContext } from './discovery-context.js';
+
+const RATE_WINDOW_MS = 60000;
+
+export class Session {
+  readonly context = new DiscoveryContext();
+  private startedAt: number[] = [];  // Execution start times within the rate window
+  private cleanups: Array<() => Promise<void>> = [];
+
+  private constructor(
+    readonly id: string,
+    readonly client: string,
+    readonly workspace: string,
+    private quota: SessionQuota
+  ) {}
+
+  /**
+   * Create a session with a fresh workspace directory
+   */
+  static async create(id: string, client: string, quota: SessionQuota): Promise<Session> {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-session-'));
+    return new Session(id, client, workspace, quota);
+  }
+
+  /**
+   * Run an execution within the session's quota; throws when the session
+   * started too many executions in the last minute. How many run at once is
+   * up to the execution queue, where the session's further executions wait.
+   */
+  async runExecution<T>(execute: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    this.startedAt = this.startedAt.filter(time => now - time < RATE_WINDOW_MS);
+
+    if (this.startedAt.length >= this.quota.maxExecutionsPerMinute) {
+      throw new Error(
+        `Session quota exceeded: at most ${this.quota.maxExecutionsPerMinute} executions per minute`
+      );
+    }
+
+    this.startedAt.push(now);
+    return await execute();
+  }
+
+  /**
+   * Release a resource held for this session when it ends
+   */
+  onClose(cleanup: () => Promise<void>): void {
+    this.cleanups.push(cleanup);
+  }
+
+  /**
+   * Release the session's resources and remove the workspace; called when
+   * the session ends
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.cleanups.map(cleanup => cleanup().catch(() => undefined)));
+    await fs.rm(this.workspace, { recursive: true, force: true });
+  }
+}
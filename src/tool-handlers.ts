@@ -0,0 +1,427 @@
+/**
+ * Execution Tool Handlers
+ * The tools both servers offer: execute_code, the Python session tools, the
+ * job tools and get_artifact, plus running a tool's script. The servers
+ * differ only in which tools they list.
+ */
+
+import * as path from 'path';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ExecutorDispatcher } from './executor/index.js';
+import { ArtifactStore } from './executor/artifact-store.js';
+import { JobManager } from './executor/job-manager.js';
+import { KernelManager } from './executor/kernel-manager.js';
+import { resolveAllowedPath, resolveAllowedPattern } from './executor/sandbox.js';
+import { ExecutionControl, ExecutionResult, JobRequest, ScriptRequest } from './types/index.js';
+import { ToolMetadata } from './intelligent-registry.js';
+import { withDetectedLanguages, withTimeoutLimit } from './tools-definitions.js';
+import { TOOLS_DIR } from './paths.js';
+import { Session } from './session.js';
+import { describeFiles, fileContent } from './artifact-resources.js';
+import { structuredOutput } from './output-schema.js';
+
+export class ToolHandlers {
+  constructor(
+    private executor: ExecutorDispatcher,
+    private kernels: KernelManager,
+    private jobs: JobManager,
+    private artifacts: ArtifactStore,
+    private lookup: (name: string) => ToolMetadata | undefined  // Tools submit_job may run
+  ) {}
+
+  /**
+   * A tool definition as listed on this host: detected runtimes in its
+   * language enum and the server's timeout limit on its timeout argument
+   */
+  advertise(metadata: ToolMetadata): ToolMetadata {
+    const maxTimeout = metadata.tool.name === 'submit_job'
+      ? this.jobs.getMaxTimeout()
+      : this.executor.getMaxTimeout();
+    return withTimeoutLimit(withDetectedLanguages(metadata, this.executor), maxTimeout);
+  }
+
+  /**
+   * Route a call to execute_code, the Python session tools, the job tools
+   * or get_artifact; undefined for any other tool
+   */
+  async call(session: Session, toolName: string, args: Record<string, any>, control: ExecutionControl) {
+    switch (toolName) {
+      case 'execute_code':
+        return await this.handleExecuteCode(session, args, control);
+      case 'create_session':
+        return await this.handleCreateSession(session, args);
+      case 'execute_in_session':
+        return await this.handleExecuteInSession(session, args, control.signal);
+      case 'close_session':
+        return await this.handleCloseSession(session, args);
+      case 'submit_job':
+        return await this.handleSubmitJob(session, args);
+      case 'get_job_status':
+        return await this.handleJobStatus(session, args);
+      case 'get_job_result':
+        return await this.handleJobResult(session, args);
+      case 'cancel_job':
+        return await this.handleCancelJob(session, args);
+      case 'get_artifact':
+        return await this.handleGetArtifact(session, args);
+    }
+    return undefined;
+  }
+
+  /**
+   * Run a tool's script
+   */
+  async runScript(
+    session: Session,
+    metadata: ToolMetadata,
+    args: Record<string, unknown>,
+    control: ExecutionControl = {}
+  ) {
+    try {
+      const request = await this.scriptRequest(metadata, args);
+      const result = await session.runExecution(() => this.executor.runScript({
+        ...request,
+        workspace: session.workspace,
+        owner: session.id,
+        collectOutput: dir => this.artifacts.collect(session.client, dir),
+        ...control,
+      }));
+      return await this.resultResponse(session, result, metadata.tool.outputSchema);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Build a tool response holding a JSON value
+   */
+  jsonResponse(value: unknown) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Build an error tool response
+   */
+  errorResponse(error: unknown) {
+    return {
+      ...this.jsonResponse({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+      isError: true,
+    };
+  }
+
+  /**
+   * Build the request that runs a tool's script. Former argument names are
+   * renamed, schema defaults are filled in, path arguments are validated against the read-only paths and
+   * mounted, and the arguments reach the script as inputs.
+   */
+  private async scriptRequest(metadata: ToolMetadata, args: Record<string, unknown>): Promise<ScriptRequest> {
+    const schema = metadata.tool.inputSchema;
+    args = { ...args };
+    for (const [alias, name] of Object.entries(metadata.argumentAliases || {})) {
+      if (args[alias] !== undefined) {
+        args[name] ??= args[alias];
+        delete args[alias];
+      }
+    }
+    for (const name of schema.required || []) {
+      if (args[name] === undefined) {
+        throw new Error(`Missing required argument: ${name}`);
+      }
+    }
+
+    const inputs: Record<string, unknown> = {};
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const fallback = (property as { default?: unknown }).default;
+      if (fallback !== undefined) {
+        inputs[name] = fallback;
+      }
+    }
+    Object.assign(inputs, args);
+
+    const readPaths: string[] = [];
+    for (const name of metadata.pathArguments || []) {
+      if (inputs[name] === undefined) {
+        continue;
+      }
+      if (metadata.globArguments?.includes(name)) {
+        const { pattern, root } = await this.resolveToolPattern(inputs[name]);
+        inputs[name] = pattern;
+        readPaths.push(root);
+      } else {
+        inputs[name] = await this.resolveToolPath(inputs[name]);
+        readPaths.push(inputs[name] as string);
+      }
+    }
+
+    return {
+      language: metadata.language || 'python',
+      scriptPath: path.resolve(TOOLS_DIR, metadata.script!),
+      timeout: metadata.timeout,
+      inputs,
+      readPaths,
+    };
+  }
+
+  /**
+   * Handle execute_code tool call
+   */
+  private async handleExecuteCode(session: Session, args: any, control: ExecutionControl = {}) {
+    try {
+      if (!args.code || typeof args.code !== 'string') {
+        throw new Error('Missing or invalid "code" parameter');
+      }
+      const language = this.checkLanguage(args.language);
+
+      const result = await session.runExecution(() => this.executor.execute({
+        language,
+        code: args.code,
+        timeout: args.timeout,
+        readPaths: args.read_paths,
+        network: args.network,
+        inputs: args.inputs,
+        workspace: session.workspace,
+        owner: session.id,
+        collectOutput: dir => this.artifacts.collect(session.client, dir),
+        ...control,
+      }));
+      return await this.resultResponse(session, result);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle create_session: start a persistent Python kernel for this client
+   */
+  private async handleCreateSession(session: Session, args: any) {
+    try {
+      const kernel = await this.kernels.create(session.id, {
+        readPaths: args.read_paths,
+        network: args.network,
+        workspace: session.workspace,
+      });
+      return this.jsonResponse({
+        session_id: kernel.id,
+        python: kernel.python,
+        idleTimeoutMs: kernel.idleTimeoutMs,
+      });
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle execute_in_session: run code in one of this client's kernels
+   */
+  private async handleExecuteInSession(session: Session, args: any, signal?: AbortSignal) {
+    try {
+      if (typeof args.session_id !== 'string' || typeof args.code !== 'string') {
+        throw new Error('Missing or invalid "session_id" or "code" parameter');
+      }
+      const result = await session.runExecution(
+        () => this.kernels.execute(session.id, args.session_id, args.code, args.timeout, signal)
+      );
+      return await this.resultResponse(session, result);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle close_session
+   */
+  private async handleCloseSession(session: Session, args: any) {
+    try {
+      if (typeof args.session_id !== 'string') {
+        throw new Error('Missing or invalid "session_id" parameter');
+      }
+      await this.kernels.close(session.id, args.session_id);
+      return this.jsonResponse({ session_id: args.session_id, closed: true });
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle submit_job: queue code, or a tool's script, to run in the
+   * background. Jobs belong to the client, not the session, so they can be
+   * collected after reconnecting.
+   */
+  private async handleSubmitJob(session: Session, args: any) {
+    try {
+      let request: JobRequest;
+      if (args.tool !== undefined) {
+        const metadata = typeof args.tool === 'string' ? this.lookup(args.tool) : undefined;
+        if (!metadata?.script) {
+          throw new Error(`Unknown tool: ${args.tool}; only tools that run a script can be jobs`);
+        }
+        // The job's timeout applies, not the tool's usual one
+        request = { ...await this.scriptRequest(metadata, args.arguments || {}), timeout: args.timeout };
+      } else {
+        if (!args.code || typeof args.code !== 'string') {
+          throw new Error('Missing or invalid "code" or "tool" parameter');
+        }
+        request = {
+          language: this.checkLanguage(args.language),
+          code: args.code,
+          timeout: args.timeout,
+          readPaths: args.read_paths,
+          network: args.network,
+          inputs: args.inputs,
+        };
+      }
+
+      // No workspace: it is removed when the session ends, which may be before the job does
+      const job = await session.runExecution(() => this.jobs.submit(session.client, request, args.tool));
+      return this.jsonResponse(job);
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle get_job_status
+   */
+  private async handleJobStatus(session: Session, args: any) {
+    try {
+      if (typeof args.job_id !== 'string') {
+        throw new Error('Missing or invalid "job_id" parameter');
+      }
+      return this.jsonResponse(await this.jobs.status(session.client, args.job_id));
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle get_job_result: one page of a finished job's output
+   */
+  private async handleJobResult(session: Session, args: any) {
+    try {
+      if (typeof args.job_id !== 'string') {
+        throw new Error('Missing or invalid "job_id" parameter');
+      }
+      return this.jsonResponse(await this.jobs.result(session.client, args.job_id, {
+        stream: args.stream,
+        offset: args.offset,
+        limit: args.limit,
+      }));
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle cancel_job
+   */
+  private async handleCancelJob(session: Session, args: any) {
+    try {
+      if (typeof args.job_id !== 'string') {
+        throw new Error('Missing or invalid "job_id" parameter');
+      }
+      return this.jsonResponse(await this.jobs.cancel(session.client, args.job_id));
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Handle get_artifact: one page of output left out of a result
+   */
+  private async handleGetArtifact(session: Session, args: any) {
+    try {
+      if (typeof args.artifact_id !== 'string') {
+        throw new Error('Missing or invalid "artifact_id" parameter');
+      }
+      return this.jsonResponse(await this.artifacts.read(session.client, args.artifact_id, {
+        offset: args.offset,
+        limit: args.limit,
+      }));
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * The requested language (default python), which must have a detected runtime
+   */
+  private checkLanguage(requested: unknown): string {
+    const language = typeof requested === 'string' ? requested : 'python';
+    if (!this.executor.supports(language)) {
+      throw new Error(
+        `Unsupported language: ${language}. ` +
+        `Supported: ${this.executor.getSupportedLanguages().join(', ')}`
+      );
+    }
+    return language;
+  }
+
+  /**
+   * Resolve a file path argument of a built-in tool, rejecting anything
+   * outside the sandbox's read-only paths (e.g. /etc/shadow, ~/.ssh)
+   */
+  private async resolveToolPath(requested: unknown): Promise<string> {
+    if (typeof requested !== 'string' || requested === '') {
+      throw new Error('Missing or invalid file path parameter');
+    }
+    return await resolveAllowedPath(requested, this.executor.getSandbox().getReadOnlyPaths());
+  }
+
+  /**
+   * Validate a path argument that may be a glob pattern
+   */
+  private async resolveToolPattern(requested: unknown): Promise<{ pattern: string; root: string }> {
+    if (typeof requested !== 'string' || requested === '') {
+      throw new Error('Missing or invalid file path parameter');
+    }
+    return await resolveAllowedPattern(requested, this.executor.getSandbox().getReadOnlyPaths());
+  }
+
+  /**
+   * Build the tool response for an execution result; output beyond the
+   * return budget is kept as artifacts of the client
+   */
+  private async resultResponse(
+    session: Session,
+    result: ExecutionResult,
+    outputSchema?: Tool['outputSchema']
+  ) {
+    const output = await this.artifacts.fit(session.client, result);
+    const structured = structuredOutput(result, outputSchema);
+    const response = this.jsonResponse({
+      success: result.success && !structured.problem,
+      status: result.status,
+      exitCode: result.exitCode,
+      signal: result.signal,
+      executionTime: result.executionTime,
+      queueTime: result.queueTime,
+      usage: result.usage,
+      stdout: output.stdout,
+      stderr: output.stderr,
+      artifacts: output.artifacts,
+      error: structured.problem ? `Invalid tool result: ${structured.problem}` : result.error,
+      limitExceeded: result.limitExceeded,
+      findings: result.findings,
+      files: describeFiles(result.files),
+      structured: result.structured,
+      sandbox: result.sandbox,
+    });
+    return {
+      // Output files follow the result as images or resource links
+      content: [...response.content, ...await fileContent(this.artifacts, session.client, result.files)],
+      structuredContent: structured.content,
+      // Clients expect structuredContent from a tool with a schema unless it failed
+      isError: outputSchema && !structured.content ? true : undefined,
+    };
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Tool Matcher
+ * Offline relevance scoring for tool discovery: tokenization, light stemming,
+ * typo tolerance and BM25 weighting over each tool's keywords, name,
+ * description and argument descriptions
+ */
+
+import { ToolMetadata } from './intelligent-registry.js';
+
+export type MatchField = 'keywords' | 'name' | 'description' | 'arguments';
+
+/**
+ * Why a query term contributed to a tool's score
+ */
+export interface TermMatch {
+  term: string;         // Query word
+  matched: string;      // Indexed stem it matched
+  field: MatchField;
+  fuzzy: boolean;       // Matched through typo tolerance
+  contribution: number;
+}
+
+export interface ToolMatch {
+  metadata: ToolMetadata;
+  score: number;
+  matches: TermMatch[];
+}
+
+// Keywords are curated for matching, so they weigh most
+const FIELD_WEIGHTS: Record<MatchField, number> = {
+  keywords: 3,
+  name: 2,
+  description: 1,
+  arguments: 0.5,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Typo tolerance: edits allowed by word length, and the weight kept per edit
+const FUZZY_MIN_LENGTH = 4;
+const FUZZY_LONG_LENGTH = 8;
+const FUZZY_PENALTY = 0.3;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with',
+  'from', 'by', 'about', 'into', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its',
+  'this', 'that', 'these', 'those', 'i', 'me', 'my', 'we', 'our', 'you', 'your',
+  'keep', 'keeps', 'why', 'what', 'how', 'when', 'where', 'which', 'do', 'does', 'did',
+  'can', 'could', 'should', 'would', 'will', 'please', 'some', 'any', 'all', 'not', 'no',
+  'e', 'g', 'eg', 'etc', 'vs',
+]);
+
+// Checked in order; the first suffix that leaves a stem of 3+ letters is removed
+const SUFFIXES = [
+  'ations', 'ation', 'ments', 'ment', 'ness', 'ings', 'ing', 'ies', 'ied', 'ers',
+  'er', 'ed', 'es', 'ly', 's',
+];
+
+interface IndexedTool {
+  metadata: ToolMetadata;
+  fields: Map<MatchField, Map<string, number>>;  // Stem -> term frequency
+  length: number;                                 // Weighted number of terms
+}
+
+export class ToolMatcher {
+  private tools: IndexedTool[];
+  private documentFrequency: Map<string, number> = new Map();
+  private averageLength: number;
+
+  constructor(tools: ToolMetadata[]) {
+    this.tools = tools.map(indexTool);
+
+    for (const tool of this.tools) {
+      const stems = new Set<string>();
+      for (const terms of tool.fields.values()) {
+        terms.forEach((_count, stem) => stems.add(stem));
+      }
+      stems.forEach(stem => {
+        this.documentFrequency.set(stem, (this.documentFrequency.get(stem) || 0) + 1);
+      });
+    }
+
+    const totalLength = this.tools.reduce((sum, tool) => sum + tool.length, 0);
+    this.averageLength = this.tools.length > 0 ? totalLength / this.tools.length : 1;
+  }
+
+  /**
+   * Score every tool against a free-text context, best first.
+   * Tools without any matching term are left out.
+   */
+  match(context: string): ToolMatch[] {
+    const vocabulary = Array.from(this.documentFrequency.keys());
+    const results: ToolMatch[] = [];
+
+    // Resolve each query word to indexed stems once: its own stem, or close misspellings
+    const queryWords = new Map<string, string>();
+    for (const word of words(context)) {
+      if (!queryWords.has(stem(word))) {
+        queryWords.set(stem(word), word);
+      }
+    }
+    const resolved = Array.from(queryWords, ([queryStem, term]) => ({
+      term,
+      candidates: this.resolve(queryStem, vocabulary),
+    }));
+
+    for (const tool of this.tools) {
+      const matches: TermMatch[] = [];
+
+      for (const { term, candidates } of resolved) {
+        // Best candidate for this tool, so one query word counts once
+        let best: TermMatch | undefined;
+        for (const { stem, weight } of candidates) {
+          const contribution = this.termScore(tool, stem) * weight;
+          if (contribution > 0 && (!best || contribution > best.contribution)) {
+            best = {
+              term,
+              matched: stem,
+              field: strongestField(tool, stem),
+              fuzzy: weight < 1,
+              contribution,
+            };
+          }
+        }
+        if (best) {
+          matches.push(best);
+        }
+      }
+
+      if (matches.length > 0) {
+        // Priority breaks near-ties in favour of specialised tools
+        const relevance = matches.reduce((sum, m) => sum + m.contribution, 0);
+        const score = relevance * (1 + tool.metadata.priority / 20);
+        results.push({ metadata: tool.metadata, score: round(score), matches });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Indexed stems a query stem may stand for, with a weight per match
+   */
+  private resolve(stem: string, vocabulary: string[]): Array<{ stem: string; weight: number }> {
+    if (this.documentFrequency.has(stem)) {
+      return [{ stem, weight: 1 }];
+    }
+    if (stem.length < FUZZY_MIN_LENGTH) {
+      return [];
+    }
+
+    const maxEdits = stem.length >= FUZZY_LONG_LENGTH ? 2 : 1;
+    return vocabulary
+      .map(candidate => ({ candidate, edits: editDistance(stem, candidate, maxEdits) }))
+      .filter(({ edits }) => edits <= maxEdits)
+      .map(({ candidate, edits }) => ({ stem: candidate, weight: 1 - FUZZY_PENALTY * edits }));
+  }
+
+  /**
+   * BM25 score of one stem for one tool, with field-weighted term frequency
+   */
+  private termScore(tool: IndexedTool, stem: string): number {
+    let frequency = 0;
+    tool.fields.forEach((terms, field) => {
+      frequency += (terms.get(stem) || 0) * FIELD_WEIGHTS[field];
+    });
+    if (frequency === 0) {
+      return 0;
+    }
+
+    const documents = this.tools.length;
+    const containing = this.documentFrequency.get(stem) || 0;
+    const idf = Math.log(1 + (documents - containing + 0.5) / (containing + 0.5));
+    const norm = K1 * (1 - B + B * tool.length / this.averageLength);
+    return idf * (frequency * (K1 + 1)) / (frequency + norm);
+  }
+}
+
+/**
+ * Split text into stemmed words, dropping stopwords
+ */
+function tokenize(text: string): string[] {
+  return words(text).map(stem);
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word !== '' && !STOPWORDS.has(word));
+}
+
+/**
+ * Light suffix stripping so "pods"/"pod" and "restarting"/"restart" match
+ */
+function stem(word: string): string {
+  if (/^\d+$/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+  for (const suffix of SUFFIXES) {
+    // "process" must not lose its final s
+    if (suffix === 's' && word.endsWith('ss')) {
+      break;
+    }
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      result = word.slice(0, -suffix.length) + (suffix === 'ies' || suffix === 'ied' ? 'y' : '');
+      break;
+    }
+  }
+
+  // "service" and "services" share "servic"
+  return result.length > 3 && result.endsWith('e') ? result.slice(0, -1) : result;
+}
+
+function indexTool(metadata: ToolMetadata): IndexedTool {
+  const properties = Object.entries(metadata.tool.inputSchema.properties || {});
+  const argumentText = properties
+    .map(([name, property]) => `${name} ${(property as { description?: string }).description || ''}`)
+    .join(' ');
+
+  const fields = new Map<MatchField, Map<string, number>>([
+    ['keywords', countTerms(metadata.keywords.join(' '))],
+    ['name', countTerms(metadata.tool.name)],
+    ['description', countTerms(metadata.tool.description || '')],
+    ['arguments', countTerms(argumentText)],
+  ]);
+
+  let length = 0;
+  fields.forEach((terms, field) => {
+    terms.forEach(count => { length += count * FIELD_WEIGHTS[field]; });
+  });
+
+  return { metadata, fields, length };
+}
+
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Field where a stem carries the most weight, for explanations
+ */
+function strongestField(tool: IndexedTool, stem: string): MatchField {
+  let best: MatchField = 'description';
+  let bestWeight = 0;
+  tool.fields.forEach((terms, field) => {
+    const weight = (terms.get(stem) || 0) * FIELD_WEIGHTS[field];
+    if (weight > bestWeight) {
+      best = field;
+      bestWeight = weight;
+    }
+  });
+  return best;
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up once it
+ * exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,78 @@
+/**
+ * Tool Watcher
+ * Watches tool sources (compiled tool definitions, plugin directories) and
+ * reports changes, debounced so an editor save or a rebuild triggers one reload
+ */
+
+import { FSWatcher, watch } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const DEBOUNCE_MS = 300;
+
+export class ToolWatcher {
+  private watchers: FSWatcher[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private files: string[],
+    private pluginDirs: string[],
+    private onChange: () => void
+  ) {}
+
+  /**
+   * Start watching. Plugin directories are watched one level deep (the
+   * directory and each plugin in it), which also works on platforms
+   * without recursive fs.watch.
+   */
+  async start(): Promise<void> {
+    this.close();
+
+    for (const file of this.files) {
+      // Watch the parent: rebuilds often replace the file, which ends a file watch
+      this.watchPath(path.dirname(file), name => name === path.basename(file));
+    }
+
+    for (const dir of this.pluginDirs) {
+      this.watchPath(dir);
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          this.watchPath(path.join(dir, entry.name));
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop all watchers
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+
+  private watchPath(target: string, filter?: (name: string) => boolean): void {
+    try {
+      const watcher = watch(target, (_event, name) => {
+        if (!filter || (name && filter(name.toString()))) {
+          this.schedule();
+        }
+      });
+      watcher.on('error', () => watcher.close());
+      // Watching must not keep the process alive once the transport closes
+      watcher.unref();
+      this.watchers.push(watcher);
+    } catch {
+      // Missing paths are reported by the loaders; nothing to watch
+    }
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(this.onChange, DEBOUNCE_MS).unref();
+  }
+}
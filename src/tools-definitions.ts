@@ -1,10 +1,94 @@
 /**
  * Tool Definitions for Intelligent Discovery
- * Each tool is specialized for specific DevOps tasks
+ * Each tool is specialized for specific DevOps tasks; the main server lists
+ * the execution tools from here too
  */
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ToolMetadata } from './intelligent-registry.js';
+import { ExecutorDispatcher } from './executor/index.js';
+
+// Counts keyed by what was counted, as in the log analyzers' results
+const COUNTS = { type: 'object', additionalProperties: { type: 'integer' } };
+// Latency percentiles in milliseconds, null when the log has no such times
+const LATENCY = {
+  type: ['object', 'null'],
+  properties: {
+    count: { type: 'integer' },
+    p50_ms: { type: 'number' },
+    p95_ms: { type: 'number' },
+    p99_ms: { type: 'number' },
+    max_ms: { type: 'number' },
+    avg_ms: { type: 'number' },
+  },
+};
+// Count of matching log lines, with the latest of them
+const MARKERS = {
+  type: 'object',
+  properties: {
+    count: { type: 'integer' },
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          line: { type: 'integer' },
+          time: { type: ['string', 'null'] },
+          stream: { type: 'string' },
+          message: { type: 'string' },
+        },
+      },
+    },
+  },
+  required: ['count', 'lines'],
+};
+
+// Inputs of the log analyzers that choose which part of the logs to read
+const LOG_READING = {
+  since: {
+    type: 'string',
+    description:
+      'Only lines at or after this time: a timestamp (2023-10-01T00:00:00), Unix seconds ' +
+      'or a duration before now (30m, 2h, 1d)',
+  },
+  until: {
+    type: 'string',
+    description: 'Only lines at or before this time, in the same forms as since',
+  },
+  sample_every: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Analyze every Nth line, for a faster approximate result on large logs',
+  },
+  max_bytes: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Read at most about this many bytes, in blocks spread over the files',
+  },
+};
+// Where a log analyzer's sample line came from, as properties of the sample
+const LINE_LOCATION = {
+  file: { type: 'string' },
+  line: { type: ['integer', 'null'], description: 'Unknown when max_bytes reads blocks' },
+};
+// What the log analyzers read; counts describe sample_fraction of the logs
+const LOG_INPUT = {
+  type: 'object',
+  properties: {
+    files: { type: 'array', items: { type: 'string' } },
+    file_count: { type: 'integer' },
+    bytes: { type: 'integer' },
+    bytes_read: { type: 'integer' },
+    lines_read: { type: 'integer' },
+    lines_sampled: { type: 'integer' },
+    sample_fraction: { type: 'number' },
+    since: { type: ['string', 'null'] },
+    until: { type: ['string', 'null'] },
+    lines_outside_window: { type: 'integer' },
+  },
+  required: ['files', 'file_count', 'sample_fraction'],
+};
 
 /**
  * Define all available tools with their metadata for intelligent discovery
@@ -15,28 +99,171 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
     tool: {
       name: 'analyze_nginx_logs',
       description:
-        'Analyze nginx access logs for errors, traffic patterns, and performance metrics. ' +
+        'Analyze nginx access logs for errors, traffic patterns, latency percentiles and attack patterns. ' +
+        'Also reads Apache, Caddy, HAProxy and JSON access logs, or any nginx log_format. ' +
         'Returns compact summary instead of raw logs. HUGE TOKEN SAVINGS: 20-50x reduction!',
       inputSchema: {
         type: 'object',
         properties: {
           log_file_path: {
             type: 'string',
-            description: 'Path to nginx access log file',
+            description:
+              'Access log file, directory or glob such as /var/log/nginx/access.log*; ' +
+              'rotated files are read oldest first and .gz, .bz2 and .zst files are decompressed',
           },
           analysis_type: {
             type: 'string',
             enum: ['errors', 'traffic', 'performance', 'security', 'full'],
-            description: 'Type of analysis to perform',
+            description:
+              'Type of analysis to perform: errors (4xx/5xx), traffic (endpoints, IPs, methods, hours), ' +
+              'performance (latency percentiles, slowest endpoints), security (attack patterns, ' +
+              'scanners, auth failures) or full (all of them)',
             default: 'full',
           },
+          log_format: {
+            type: 'string',
+            description:
+              'Log format: auto (detect), a preset (combined, main, timed_combined, common, ' +
+              'apache_combined, apache_common, json, caddy, haproxy) or an nginx log_format string, ' +
+              'e.g. \'$remote_addr [$time_local] "$request" $status $request_time\'',
+            default: 'auto',
+          },
+          ...LOG_READING,
         },
         required: ['log_file_path'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          input: LOG_INPUT,
+          parsing: {
+            type: 'object',
+            properties: {
+              format: { type: 'string' },
+              parsed_lines: { type: 'integer' },
+              unparsed_lines: { type: 'integer' },
+              unparsed_samples: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { ...LINE_LOCATION, content: { type: 'string' } },
+                  required: ['file', 'line', 'content'],
+                },
+              },
+            },
+            required: ['format', 'parsed_lines', 'unparsed_lines'],
+          },
+          overview: {
+            type: 'object',
+            properties: {
+              total_requests: { type: 'integer' },
+              total_bytes_transferred: { type: 'integer' },
+              avg_response_size: { type: 'integer' },
+              success_rate: { type: 'string' },
+              error_rate_5xx: { type: 'string' },
+              error_rate_4xx: { type: 'string' },
+            },
+            required: ['total_requests'],
+          },
+          status_codes: COUNTS,
+          top_endpoints: COUNTS,
+          http_methods: COUNTS,
+          top_ips: COUNTS,
+          user_agents: COUNTS,
+          errors_5xx: {
+            type: 'object',
+            properties: {
+              count: { type: 'integer' },
+              details: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    ...LINE_LOCATION,
+                    endpoint: { type: 'string' },
+                    status: { type: 'integer' },
+                    ip: { type: 'string' },
+                    timestamp: { type: ['string', 'null'] },
+                  },
+                  required: ['file', 'line'],
+                },
+              },
+            },
+            required: ['count'],
+          },
+          errors_4xx: {
+            type: 'object',
+            properties: {
+              count: { type: 'integer' },
+              top_endpoints: COUNTS,
+            },
+            required: ['count'],
+          },
+          hourly_traffic: COUNTS,
+          latency: {
+            type: 'object',
+            description: 'Milliseconds; only a note when the format logs no request times',
+            properties: {
+              request_time: LATENCY,
+              upstream_response_time: LATENCY,
+              slowest_endpoints: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    endpoint: { type: 'string' },
+                    count: { type: 'integer' },
+                    avg_ms: { type: 'number' },
+                    max_ms: { type: 'number' },
+                  },
+                },
+              },
+              note: { type: 'string' },
+            },
+          },
+          security: {
+            type: 'object',
+            properties: {
+              suspicious_requests: { type: 'integer' },
+              by_attack: COUNTS,
+              top_suspicious_ips: COUNTS,
+              samples: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    ...LINE_LOCATION,
+                    ip: { type: 'string' },
+                    attack: { type: 'string' },
+                    request: { type: 'string' },
+                    status: { type: 'integer' },
+                  },
+                  required: ['file', 'line'],
+                },
+              },
+              scanners: COUNTS,
+              auth_failures: {
+                type: 'object',
+                properties: {
+                  count: { type: 'integer' },
+                  top_ips: COUNTS,
+                },
+              },
+              top_404_ips: COUNTS,
+            },
+            required: ['suspicious_requests'],
+          },
+          recommendations: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['input', 'parsing', 'overview', 'status_codes', 'recommendations'],
+      },
     },
     keywords: ['nginx', 'web server', 'access log', 'http', 'web traffic'],
     category: 'log-analysis',
     priority: 10,
+    script: 'analyze_nginx_logs.py',
+    pathArguments: ['log_file_path'],
+    globArguments: ['log_file_path'],
   },
 
   // 2. Docker Log Analyzer - For containerized applications
@@ -44,26 +271,110 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
     tool: {
       name: 'analyze_docker_logs',
       description:
-        'Analyze Docker container logs for errors, warnings, and container health issues. ' +
+        'Analyze Docker container logs (json-file format) for errors, warnings, repeated messages, ' +
+        'restarts and OOM kills. Reads a *-json.log file or a container directory. ' +
         'Processes logs locally and returns summary. TOKEN SAVINGS: 30-50x',
       inputSchema: {
         type: 'object',
         properties: {
-          container_name_or_id: {
+          log_path: {
             type: 'string',
-            description: 'Docker container name or ID, or path to docker log file',
+            description:
+              'Path to a container\'s <id>-json.log file, or to its container directory ' +
+              '(e.g. /var/lib/docker/containers/<id>) to read rotated logs too. ' +
+              'Formerly container_name_or_id, which is still accepted',
           },
           since: {
             type: 'string',
-            description: 'Show logs since timestamp (e.g., "2023-01-01T00:00:00")',
+            description:
+              'Only analyze lines since a timestamp (e.g., "2023-01-01T00:00:00"), ' +
+              'Unix seconds or a duration before now (e.g., "30m", "2h", "1d")',
+          },
+        },
+        required: ['log_path'],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          container: { type: 'string' },
+          files: { type: 'array', items: { type: 'string' } },
+          since: { type: ['string', 'null'] },
+          time_range: {
+            type: 'object',
+            properties: {
+              first: { type: ['string', 'null'] },
+              last: { type: ['string', 'null'] },
+            },
+          },
+          total_lines: { type: 'integer' },
+          skipped_before_since: { type: 'integer' },
+          unparsed_lines: { type: 'integer' },
+          streams: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                lines: { type: 'integer' },
+                errors: { type: 'integer' },
+                warnings: { type: 'integer' },
+              },
+              required: ['lines', 'errors', 'warnings'],
+            },
+          },
+          top_messages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                count: { type: 'integer' },
+                stream: { type: 'string' },
+                level: { type: ['string', 'null'], enum: ['errors', 'warnings', null] },
+              },
+              required: ['message', 'count'],
+            },
+          },
+          restart_markers: {
+            ...MARKERS,
+            description:
+              'Stop and start lines; count is the restarts they show, a start after a stop ' +
+              'or after a gap in starts',
+          },
+          oom_markers: MARKERS,
+          histogram: {
+            type: 'object',
+            properties: {
+              bucket: { type: ['string', 'null'] },
+              counts: COUNTS,
+            },
+            required: ['bucket', 'counts'],
+          },
+          state: {
+            type: 'object',
+            description: 'From the container directory\'s config.v2.json, when present',
+            properties: {
+              name: { type: ['string', 'null'] },
+              running: { type: ['boolean', 'null'] },
+              restart_count: { type: ['integer', 'null'] },
+              oom_killed: { type: ['boolean', 'null'] },
+              exit_code: { type: ['integer', 'null'] },
+              started_at: { type: ['string', 'null'] },
+              finished_at: { type: ['string', 'null'] },
+            },
           },
         },
-        required: ['container_name_or_id'],
+        required: [
+          'container', 'total_lines', 'streams', 'top_messages',
+          'restart_markers', 'oom_markers', 'histogram',
+        ],
       },
     },
-    keywords: ['docker', 'container', 'containerized', 'docker log'],
+    keywords: ['docker', 'container', 'containerized', 'docker log', 'oom', 'restart'],
     category: 'log-analysis',
     priority: 9,
+    script: 'analyze_docker_logs.py',
+    pathArguments: ['log_path'],
+    argumentAliases: { container_name_or_id: 'log_path' },
   },
 
   // 3. Kubernetes YAML Validator
@@ -88,10 +399,23 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
         },
         required: ['yaml_file_path'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          valid: { type: 'boolean' },
+          documents: { type: 'integer' },
+          resources: { type: 'array', items: { type: 'string' } },
+          recommendations: { type: 'array', items: { type: 'string' } },
+          error: { type: 'string' },
+        },
+        required: ['valid'],
+      },
     },
     keywords: ['kubernetes', 'k8s', 'kubectl', 'yaml', 'deployment', 'pod', 'service'],
     category: 'validation',
     priority: 8,
+    script: 'validate_kubernetes_yaml.py',
+    pathArguments: ['yaml_file_path'],
   },
 
   // 4. System Health Check
@@ -120,43 +444,71 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
           },
         },
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          disk: {
+            type: 'object',
+            properties: {
+              total_gb: { type: 'number' },
+              used_gb: { type: 'number' },
+              free_gb: { type: 'number' },
+              used_percent: { type: 'number' },
+              alert: { type: 'boolean' },
+            },
+            required: ['used_percent', 'alert'],
+          },
+          overall_health: { type: 'string', enum: ['OK', 'WARNING'] },
+        },
+        required: ['overall_health'],
+      },
     },
     keywords: ['system health', 'disk space', 'memory', 'cpu', 'monitoring', 'health check'],
     category: 'system',
     priority: 7,
+    script: 'check_system_health.py',
   },
 
-  // 5. Generic Code Executor - Fallback for any Python code
+  // 5. Generic Code Executor - Fallback for any Python or Bash code
   {
     tool: {
       name: 'execute_code',
       description:
-        'Execute Python code in a secure sandbox for custom DevOps tasks. ' +
+        'Execute code (Python, Bash and other installed runtimes) in a secure sandbox for custom DevOps tasks. ' +
         'Flexible tool for any scripting needs. TOKEN SAVINGS: Varies by use case',
       inputSchema: {
         type: 'object',
         properties: {
           language: {
             type: 'string',
-            enum: ['python'],
-            description: 'Programming language (currently only Python supported)',
+            enum: ['python', 'bash'],
+            description: 'Programming language',
             default: 'python',
           },
           code: {
             type: 'string',
-            description: 'The Python code to execute',
+            description: 'The code to execute',
           },
           timeout: {
             type: 'number',
-            description: 'Execution timeout in milliseconds (default: 30000, max: 30000)',
-            default: 30000,
-            maximum: 30000,
+            description: 'Execution timeout in milliseconds (default: the maximum)',
+          },
+          read_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Files or directories the code needs to read; must lie within the server\'s allowed read-only paths',
+          },
+          network: networkArgument('this run'),
+          inputs: {
+            type: 'object',
+            description: 'JSON arguments for the code, written to the file named by the MCP_INPUTS_FILE environment variable',
+            additionalProperties: true,
           },
         },
         required: ['code'],
       },
     },
-    keywords: ['python', 'code', 'script', 'execute', 'run'],
+    keywords: ['python', 'bash', 'shell', 'code', 'script', 'execute', 'run'],
     category: 'execution',
     priority: 5, // Lower priority - only shows when nothing else matches
   },
@@ -184,10 +536,22 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
         },
         required: ['file_path'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          valid: { type: 'boolean' },
+          file_type: { type: 'string' },
+          keys: { type: ['array', 'null'], items: { type: 'string' } },
+          error: { type: 'string' },
+        },
+        required: ['valid'],
+      },
     },
     keywords: ['config', 'configuration', 'json', 'yaml', 'toml', 'validate'],
     category: 'validation',
     priority: 6,
+    script: 'validate_config_file.py',
+    pathArguments: ['file_path'],
   },
 
   // 7. Log Pattern Analyzer (Generic)
@@ -202,7 +566,9 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
         properties: {
           log_file_path: {
             type: 'string',
-            description: 'Path to log file',
+            description:
+              'Log file, directory or glob such as /var/log/app/*.log*; ' +
+              'rotated files are read oldest first and .gz, .bz2 and .zst files are decompressed',
           },
           pattern: {
             type: 'string',
@@ -214,12 +580,370 @@ export const TOOL_DEFINITIONS: ToolMetadata[] = [
             description: 'Filter by log level',
             default: 'all',
           },
+          ...LOG_READING,
         },
         required: ['log_file_path'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          total_matches: { type: 'integer' },
+          pattern: { type: 'string' },
+          matches: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { ...LINE_LOCATION, content: { type: 'string' } },
+              required: ['file', 'line', 'content'],
+            },
+          },
+          input: LOG_INPUT,
+        },
+        required: ['total_matches', 'pattern', 'matches', 'input'],
+      },
     },
     keywords: ['log', 'application log', 'error log', 'syslog', 'pattern'],
     category: 'log-analysis',
     priority: 7,
+    script: 'analyze_log_patterns.py',
+    pathArguments: ['log_file_path'],
+    globArguments: ['log_file_path'],
+  },
+
+  // 8-10. Persistent Python sessions - state survives between calls
+  {
+    tool: {
+      name: 'create_session',
+      description:
+        'Start a persistent Python session. Variables and imports survive between ' +
+        'execute_in_session calls, so large data (logs, DataFrames) is loaded once and queried many times. ' +
+        'Returns a session_id; sessions close after a period of inactivity.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          read_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Files or directories the session needs to read; must lie within the server\'s allowed read-only paths',
+          },
+          network: networkArgument('the session'),
+        },
+      },
+    },
+    keywords: ['session', 'persistent', 'repl', 'interactive', 'stateful', 'dataframe', 'pandas', 'notebook'],
+    category: 'execution',
+    priority: 5,
+  },
+  {
+    tool: {
+      name: 'execute_in_session',
+      description:
+        'Run Python code in a session from create_session. Earlier variables and imports are available; ' +
+        'the value of a trailing expression is printed, as in a REPL.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session_id: {
+            type: 'string',
+            description: 'Session returned by create_session',
+          },
+          code: {
+            type: 'string',
+            description: 'The Python code to execute',
+          },
+          timeout: {
+            type: 'number',
+            description: 'Execution timeout in milliseconds (default: the maximum); the session survives a timeout',
+          },
+        },
+        required: ['session_id', 'code'],
+      },
+    },
+    keywords: ['session', 'persistent', 'repl', 'variables', 'dataframe', 'pandas', 'notebook'],
+    category: 'execution',
+    priority: 5,
+  },
+  {
+    tool: {
+      name: 'close_session',
+      description: 'Close a Python session from create_session and free its memory.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session_id: {
+            type: 'string',
+            description: 'Session returned by create_session',
+          },
+        },
+        required: ['session_id'],
+      },
+    },
+    keywords: ['session', 'close', 'repl'],
+    category: 'execution',
+    priority: 3,
+  },
+
+  // 11-14. Background jobs - analyses that run longer than a tool call may
+  {
+    tool: {
+      name: 'submit_job',
+      description:
+        'Run a long analysis in the background, e.g. scanning a day of production logs: ' +
+        'either code, or a tool such as analyze_log_patterns with its arguments. ' +
+        'Returns a job_id at once; follow it with get_job_status and collect the output with get_job_result.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool: {
+            type: 'string',
+            description: 'Tool to run as a job instead of code, e.g. analyze_nginx_logs',
+          },
+          arguments: {
+            type: 'object',
+            description: 'Arguments for the tool',
+            additionalProperties: true,
+          },
+          language: {
+            type: 'string',
+            enum: ['python', 'bash'],
+            description: 'Programming language',
+            default: 'python',
+          },
+          code: {
+            type: 'string',
+            description: 'The code to execute, when no tool is given',
+          },
+          timeout: {
+            type: 'number',
+            description: 'Job timeout in milliseconds (default: the maximum)',
+          },
+          read_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Files or directories the code needs to read; must lie within the server\'s allowed read-only paths',
+          },
+          network: networkArgument('the code'),
+          inputs: {
+            type: 'object',
+            description: 'JSON arguments for the code, written to the file named by the MCP_INPUTS_FILE environment variable',
+            additionalProperties: true,
+          },
+        },
+      },
+    },
+    keywords: ['job', 'background', 'long', 'batch', 'async', 'slow', 'large', 'day', 'production'],
+    category: 'execution',
+    priority: 5,
+  },
+  {
+    tool: {
+      name: 'get_job_status',
+      description: 'Status of a job from submit_job: queued, running, succeeded, failed or cancelled, with its latest progress.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          job_id: {
+            type: 'string',
+            description: 'Job returned by submit_job',
+          },
+        },
+        required: ['job_id'],
+      },
+    },
+    keywords: ['job', 'status', 'progress', 'background'],
+    category: 'execution',
+    priority: 4,
+  },
+  {
+    tool: {
+      name: 'get_job_result',
+      description:
+        'Result of a finished job from submit_job. Output is returned in pages; ' +
+        'pass nextOffset back as offset to read the next one.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          job_id: {
+            type: 'string',
+            description: 'Job returned by submit_job',
+          },
+          stream: {
+            type: 'string',
+            enum: ['stdout', 'stderr'],
+            description: 'Output stream to read',
+            default: 'stdout',
+          },
+          offset: {
+            type: 'number',
+            description: 'Characters of output to skip',
+            default: 0,
+          },
+          limit: {
+            type: 'number',
+            description: 'Characters of output to return',
+            default: 100000,
+            maximum: 1000000,
+          },
+        },
+        required: ['job_id'],
+      },
+    },
+    keywords: ['job', 'result', 'output', 'background'],
+    category: 'execution',
+    priority: 4,
+  },
+  {
+    tool: {
+      name: 'cancel_job',
+      description: 'Cancel a queued or running job from submit_job.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          job_id: {
+            type: 'string',
+            description: 'Job returned by submit_job',
+          },
+        },
+        required: ['job_id'],
+      },
+    },
+    keywords: ['job', 'cancel', 'stop', 'background'],
+    category: 'execution',
+    priority: 3,
+  },
+  {
+    tool: {
+      name: 'get_artifact',
+      description:
+        'Full output of a result whose stdout or stderr was shortened. Output is returned in pages; ' +
+        'pass nextOffset back as offset to read the next one.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          artifact_id: {
+            type: 'string',
+            description: 'Artifact named in a result\'s "artifacts"',
+          },
+          offset: {
+            type: 'number',
+            description: 'Bytes of output to skip',
+            default: 0,
+          },
+          limit: {
+            type: 'number',
+            description: 'Bytes of output to return',
+            default: 100000,
+            maximum: 1000000,
+          },
+        },
+        required: ['artifact_id'],
+      },
+    },
+    keywords: ['artifact', 'output', 'full', 'truncated', 'elided', 'stdout', 'stderr'],
+    category: 'execution',
+    priority: 3,
   },
 ];
+
+/**
+ * Meta-tool through which the client tells the server what it is working on.
+ * Always listed, whatever the current context.
+ */
+export const SET_CONTEXT_TOOL: Tool = {
+  name: 'set_context',
+  description:
+    'Describe the task you are working on (e.g. "nginx 502 errors on the web tier") ' +
+    'so the server lists only the tools relevant to it. Returns the matching tools. ' +
+    'Call again when the task changes; an empty context lists all tools.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      context: {
+        type: 'string',
+        description: 'What you are trying to do, in a sentence or a few keywords',
+      },
+    },
+    required: ['context'],
+  },
+};
+
+/**
+ * Advertise the server's timeout limit as the default and maximum of a
+ * tool's timeout argument
+ */
+export function withTimeoutLimit(metadata: ToolMetadata, maxTimeout: number): ToolMetadata {
+  const schema = metadata.tool.inputSchema;
+  const timeout = schema.properties?.timeout as Record<string, unknown> | undefined;
+  if (!timeout) {
+    return metadata;
+  }
+
+  return {
+    ...metadata,
+    tool: {
+      ...metadata.tool,
+      inputSchema: {
+        ...schema,
+        properties: {
+          ...schema.properties,
+          timeout: { ...timeout, default: maxTimeout, maximum: maxTimeout },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Advertise only the runtimes detected on this host in a tool's language enum
+ */
+export function withDetectedLanguages(
+  metadata: ToolMetadata,
+  executor: ExecutorDispatcher
+): ToolMetadata {
+  const schema = metadata.tool.inputSchema;
+  const language = schema.properties?.language as Record<string, unknown> | undefined;
+  if (!language) {
+    return metadata;
+  }
+
+  return {
+    ...metadata,
+    tool: {
+      ...metadata.tool,
+      inputSchema: {
+        ...schema,
+        properties: {
+          ...schema.properties,
+          language: {
+            ...language,
+            enum: executor.getSupportedLanguages(),
+            description: executor.describeLanguages(),
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * The network argument of the execution tools: a policy for what the tool
+ * runs, which may only narrow the server's
+ */
+function networkArgument(subject: string) {
+  return {
+    type: 'object',
+    description: `Network access for ${subject}; may only narrow the server's network policy (default: server policy)`,
+    properties: {
+      mode: {
+        type: 'string',
+        enum: ['none', 'loopback-only', 'allowlist', 'unrestricted'],
+      },
+      allow: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'host or host:port entries reachable in allowlist mode',
+      },
+    },
+    required: ['mode'],
+  };
+}
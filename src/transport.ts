@@ -0,0 +1,250 @@
+/**
+ * Transports
+ * Serves MCP sessions over stdio (one session) or HTTP, where each client
+ * session gets its own MCP server instance and Session state. HTTP speaks
+ * Streamable HTTP on /mcp and the legacy SSE transport on /sse + /messages,
+ * and requires a bearer token from the config file.
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { DEFAULT_SESSION_QUOTA, HttpToken, ServerConfig } from './types/index.js';
+import { Session } from './session.js';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface TransportOptions {
+  mode: 'stdio' | 'http';
+  port: number;
+  host: string;
+}
+
+/**
+ * Creates the MCP server for a new session
+ */
+export type SessionServerFactory = (session: Session) => Server;
+
+interface ActiveSession {
+  session: Session;
+  server: Server;
+  transport: Transport;
+  kind: 'streamable' | 'sse';
+}
+
+/**
+ * Resolve the transport from --transport, --port and --host, falling back
+ * to the config file's http section
+ */
+export function resolveTransportOptions(
+  config: ServerConfig = {},
+  argv: string[] = process.argv
+): TransportOptions {
+  const flag = (name: string): string | undefined => {
+    const index = argv.indexOf(`--${name}`);
+    if (index !== -1 && argv[index + 1]) {
+      return argv[index + 1];
+    }
+    return argv.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  };
+
+  const mode = flag('transport') || 'stdio';
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Unknown transport: ${mode} (expected stdio or http)`);
+  }
+
+  const port = Number(flag('port') ?? config.http?.port ?? DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flag('port') ?? config.http?.port}`);
+  }
+
+  return { mode, port, host: flag('host') || config.http?.host || DEFAULT_HOST };
+}
+
+/**
+ * Accept sessions on the chosen transport until the process is stopped.
+ * Returns the listening HTTP server, or undefined on stdio.
+ */
+export async function serveSessions(
+  options: TransportOptions,
+  config: ServerConfig,
+  createSessionServer: SessionServerFactory
+): Promise<HttpServer | undefined> {
+  const quota = { ...DEFAULT_SESSION_QUOTA, ...config.sessions };
+  const active = new Map<string, ActiveSession>();
+
+  const closeSession = async (id: string) => {
+    const entry = active.get(id);
+    if (!entry) {
+      return;
+    }
+    active.delete(id);
+    await entry.server.close().catch(() => undefined);
+    await entry.session.close();
+    console.error(`Session ${id} closed (${entry.session.client})`);
+  };
+
+  const shutdown = async () => {
+    await Promise.all(Array.from(active.keys()).map(closeSession));
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  if (options.mode === 'stdio') {
+    const session = await Session.create('stdio', 'local', quota);
+    const server = createSessionServer(session);
+    const transport = new StdioServerTransport();
+    active.set(session.id, { session, server, transport, kind: 'streamable' });
+    transport.onclose = () => { void closeSession(session.id); };
+    // The stdio transport does not close by itself when the client goes away
+    process.stdin.on('end', () => { void closeSession(session.id); });
+    await server.connect(transport);
+    return undefined;
+  }
+
+  const tokens = config.http?.tokens || [];
+  if (tokens.length === 0) {
+    throw new Error('The HTTP transport requires at least one entry in http.tokens in the config file');
+  }
+
+  const openSession = async (
+    id: string,
+    client: string,
+    transport: Transport,
+    kind: ActiveSession['kind']
+  ) => {
+    const session = await Session.create(id, client, quota);
+    const server = createSessionServer(session);
+    active.set(id, { session, server, transport, kind });
+    transport.onclose = () => { void closeSession(id); };
+    await server.connect(transport);
+    console.error(`Session ${id} opened (${client}, ${kind})`);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const client = authenticate(req, tokens);
+    if (!client) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return sendError(res, 401, 'Missing or invalid bearer token');
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    // Sessions belong to the client that opened them
+    const lookup = (id: string | undefined, kind: ActiveSession['kind']) => {
+      const entry = id ? active.get(id) : undefined;
+      if (!entry || entry.kind !== kind) {
+        sendError(res, 404, 'Session not found');
+        return undefined;
+      }
+      if (entry.session.client !== client) {
+        sendError(res, 403, 'Session belongs to another client');
+        return undefined;
+      }
+      return entry;
+    };
+
+    if (url.pathname === '/mcp') {
+      const sessionId = req.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') {
+        const entry = lookup(sessionId, 'streamable');
+        if (entry) {
+          await (entry.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+        }
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        return sendError(res, 400, 'Expected an initialize request or an Mcp-Session-Id header');
+      }
+
+      const id = randomUUID();
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => id });
+      await openSession(id, client, transport, 'streamable');
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      await openSession(transport.sessionId, client, transport, 'sse');
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const entry = lookup(url.searchParams.get('sessionId') || undefined, 'sse');
+      if (entry) {
+        await (entry.transport as SSEServerTransport).handlePostMessage(req, res, body);
+      }
+      return;
+    }
+
+    sendError(res, 404, 'Not found');
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('[HTTP Error]', error);
+      if (!res.headersSent) {
+        sendError(res, error instanceof SyntaxError ? 400 : 500,
+          error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  console.error(`Listening on http://${options.host}:${options.port} (/mcp, /sse)`);
+  return httpServer;
+}
+
+/**
+ * Client name for the request's bearer token, if it is a configured token
+ */
+function authenticate(req: IncomingMessage, tokens: HttpToken[]): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) {
+    return undefined;
+  }
+
+  const presented = Buffer.from(match[1].trim());
+  for (const { name, token } of tokens) {
+    const expected = Buffer.from(token);
+    if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read and parse a JSON request body, refusing oversized bodies
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: message }));
+}
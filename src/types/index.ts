@@ -2,39 +2,453 @@
  * MCP Code Execution - Type Definitions
  */
 
+/**
+ * Language key of a registered runtime (e.g. 'python', 'bash', 'javascript')
+ */
+export type ExecutionLanguage = string;
+
 export interface ExecutionRequest {
-  language: 'python' | 'bash';
+  language: ExecutionLanguage;
   code: string;
   timeout?: number;
   workingDir?: string;
+  readPaths?: string[];   // Narrows the sandbox's read-only paths for this call
+  network?: NetworkPolicy; // Narrows the server's network policy for this call
+  inputs?: Record<string, unknown>; // JSON arguments, readable via the file in MCP_INPUTS_FILE
+  workspace?: string;     // Session directory kept between executions, writable, in MCP_WORKSPACE
+  listener?: ExecutionListener; // Receives output and progress while the code runs
+  signal?: AbortSignal;   // Aborting kills the execution and all processes it started
+  owner?: string;         // Client session the execution is queued for, for fair scheduling
+  collectOutput?: OutputCollector; // Keeps the files the code wrote to MCP_OUTPUT_DIR
+}
+
+/**
+ * Takes the files from an execution's output directory before the scratch
+ * directory is removed
+ */
+export type OutputCollector = (dir: string) => Promise<OutputFile[]>;
+
+/**
+ * A file an execution wrote to its output directory, kept as an artifact
+ */
+export interface OutputFile {
+  artifactId: string;
+  name: string;      // Path within the output directory
+  mimeType: string;
+  bytes: number;
+}
+
+/**
+ * Reported while an execution runs: a chunk of output as it arrives, or
+ * progress the script announced with a sentinel line
+ */
+export type ExecutionEvent =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'progress'; percent?: number; message?: string };
+
+export type ExecutionListener = (event: ExecutionEvent) => void;
+
+/**
+ * How the caller follows and controls a running execution
+ */
+export type ExecutionControl = Pick<ExecutionRequest, 'listener' | 'signal'>;
+
+/**
+ * Runs a server-owned script file (e.g. a built-in tool) instead of submitted
+ * code. Such scripts are trusted and skip the code policy.
+ */
+export interface ScriptRequest extends Omit<ExecutionRequest, 'code'> {
+  scriptPath: string;
+}
+
+/**
+ * Starts a persistent Python session. Read paths, network policy and
+ * workspace are fixed for the session's lifetime.
+ */
+export interface KernelRequest {
+  readPaths?: string[];
+  network?: NetworkPolicy;
+  workspace?: string;
+}
+
+/**
+ * How an execution ended
+ */
+export type ExecutionStatus =
+  | 'ok'                // Exited with code 0
+  | 'nonzero_exit'      // Exited with another code
+  | 'timeout'           // Killed for exceeding its timeout
+  | 'output_limit'      // Killed for writing too much output
+  | 'policy_violation'  // Rejected by the code policy or request validation; retrying will not help
+  | 'spawn_error'       // Could not be started
+  | 'signal'            // Terminated by a signal, e.g. when a resource limit was hit
+  | 'cancelled'         // Cancelled by the caller
+  | 'busy';             // Not run because the execution queue was full
+
+/**
+ * Resources an execution used
+ */
+export interface ResourceUsage {
+  peakMemoryMB: number;   // Peak resident memory of the process tree
+  cpuSeconds: number;     // User and system CPU time
+  // 'cgroup' is exact; 'sampled' reads /proc periodically and may miss short peaks
+  measuredBy: 'cgroup' | 'sampled';
 }
 
 export interface ExecutionResult {
   success: boolean;
+  status: ExecutionStatus;
   stdout: string;
   stderr: string;
   exitCode: number;
+  signal?: string;                   // Signal that terminated the process, e.g. SIGKILL
+  usage?: ResourceUsage;
   executionTime: number;
+  queueTime?: number;                // Milliseconds waited for an execution slot, not in executionTime
   error?: string;
+  limitExceeded?: ResourceLimitKind; // Set when an OS resource limit killed the process
+  findings?: PolicyFinding[];        // Set when the code was rejected by policy
+  files?: OutputFile[];              // Files written to MCP_OUTPUT_DIR, when collected
+  outputArtifacts?: { stdout?: string; stderr?: string };  // Whole streams longer than kept in memory
+  structured?: unknown;              // JSON the code wrote to MCP_RESULT_FILE
+  sandbox?: string;                  // Set when the code ran without filesystem isolation, saying why
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * What a background job runs: submitted code or a tool's script
+ */
+export type JobRequest =
+  | Omit<ExecutionRequest, 'listener' | 'signal' | 'collectOutput'>
+  | Omit<ScriptRequest, 'listener' | 'signal' | 'collectOutput'>;
+
+/**
+ * A background job as kept in the job store; the result is stored apart
+ */
+export interface JobRecord {
+  id: string;
+  owner: string;          // Client that submitted the job
+  tool?: string;          // Tool whose script the job runs, if not submitted code
+  status: JobStatus;
+  request: JobRequest;
+  submittedAt: number;    // Epoch milliseconds
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;         // Why the job failed, for a failed or cancelled job
+  pid: number;            // Server process that queued or runs the job
+  cancelRequested?: boolean; // Set by another server process to cancel a running job
+}
+
+/**
+ * Common interface implemented by every language executor
+ */
+export interface CodeExecutor {
+  execute(request: ExecutionRequest): Promise<ExecutionResult>;
+  runScript(request: ScriptRequest): Promise<ExecutionResult>;
+}
+
+/**
+ * Declares how to run code for a language
+ */
+export interface RuntimeDefinition {
+  language: ExecutionLanguage;
+  extension: string;        // Script file extension, including the dot
+  command: string;          // Interpreter executable
+  args?: string[];          // Command line; '{script}' is replaced by the script path
+  env?: Record<string, string>;
+  versionProbe?: string[];  // Arguments that print the interpreter version
+  description?: string;
+  // Whether maxMemoryMB is enforced as an address-space rlimit (default true).
+  // Runtimes that reserve large virtual ranges up front (V8) cap their heap via
+  // a '{memoryMB}' placeholder in args instead.
+  addressSpaceLimit?: boolean;
+  // Check code as a shell script against blockedCommands/allowedCommands
+  // (default false; bash always is). Other languages have no command words.
+  shellPolicy?: boolean;
+}
+
+/**
+ * A runtime that was found on this host during detection
+ */
+export interface DetectedRuntime {
+  definition: RuntimeDefinition;
+  version: string;
+}
+
+/**
+ * Server configuration loaded from the JSON config file
+ */
+export interface ServerConfig {
+  runtimes?: RuntimeDefinition[];
+  executor?: Partial<ExecutorConfig>;
+  plugins?: string[];  // Directories holding plugin tools (one subdirectory per tool)
+  hotReload?: boolean; // Reload tools when their sources change (default: true)
+  discovery?: Partial<DiscoveryOptions>;
+  http?: HttpConfig;
+  sessions?: Partial<SessionQuota>;
+  kernels?: Partial<KernelConfig>;
+  jobs?: Partial<JobConfig>;
+  output?: Partial<OutputConfig>;
+}
+
+/**
+ * HTTP transport settings; --port and --host override port and host
+ */
+export interface HttpConfig {
+  port?: number;
+  host?: string;
+  tokens?: HttpToken[];  // Bearer tokens accepted by the HTTP transport
 }
 
+export interface HttpToken {
+  name: string;   // Client the token belongs to, used in logs and to own sessions
+  token: string;
+}
+
+/**
+ * Execution limits applied to each client session
+ */
+export interface SessionQuota {
+  maxConcurrentExecutions: number;  // Further executions wait in the execution queue
+  maxExecutionsPerMinute: number;
+}
+
+/**
+ * Persistent Python sessions (create_session / execute_in_session tools)
+ */
+export interface KernelConfig {
+  maxSessions: number;    // Open sessions across all clients
+  idleTimeoutMs: number;  // Sessions unused this long are closed
+  maxMemoryMB: number;    // Per session; replaces executor.maxMemoryMB
+  maxCpuSeconds: number;  // CPU time over a session's whole lifetime
+}
+
+/**
+ * Background jobs (submit_job and related tools)
+ */
+export interface JobConfig {
+  workers: number;        // Jobs running at once; others wait in the queue
+  maxTimeout: number;     // Longest job, in milliseconds; replaces executor.maxTimeout
+  maxCpuSeconds: number;  // Per job; replaces executor.maxCpuSeconds
+  storeDir: string;       // Where jobs and their results are kept (default: <tmpdir>/mcp-jobs)
+  retentionMs: number;    // Finished jobs older than this are deleted
+}
+
+/**
+ * How much execution output a tool result returns; longer output is
+ * shortened and kept whole as an artifact
+ */
+export interface OutputConfig {
+  maxReturnBytes: number;      // stdout and stderr together in one tool result
+  artifactDir: string;         // Where full output is kept (default: <tmpdir>/mcp-artifacts)
+  artifactRetentionMs: number; // Artifacts older than this are deleted
+  maxStoreMB: number;          // Artifacts of all clients together; the oldest go first
+  maxFilesPerExecution: number; // Files kept from one execution's output directory
+}
+
+/**
+ * Full output of a stream that did not fit in its tool result, or a file
+ * an execution wrote to its output directory
+ */
+export interface ArtifactRecord {
+  id: string;
+  owner: string;      // Client the output was returned to
+  name: string;       // 'stdout', 'stderr' or the file's path in the output directory
+  mimeType: string;
+  bytes: number;
+  createdAt: number;  // Epoch milliseconds
+  keepUntil?: number; // Kept until then instead of for the retention period (a job's artifacts)
+}
+
+/**
+ * Tool discovery tuning for the intelligent server
+ */
+export interface DiscoveryOptions {
+  topK: number;      // Most tools listed for a context
+  minScore: number;  // Tools scoring below this are not listed
+}
+
+/**
+ * OS resource limits that can terminate an execution
+ */
+export type ResourceLimitKind = 'memory' | 'cpu' | 'processes' | 'open_files' | 'file_size';
+
 export interface ExecutorConfig {
   maxTimeout: number;
-  maxMemoryMB: number;
-  allowedCommands?: string[];
-  blockedCommands?: string[];
+  maxMemoryMB: number;       // Address space (RLIMIT_AS) and cgroup memory.max
+  maxCpuSeconds: number;     // CPU time (RLIMIT_CPU)
+  maxProcesses: number;      // RLIMIT_NPROC (counted per user) and cgroup pids.max
+  maxOpenFiles: number;      // RLIMIT_NOFILE
+  maxFileSizeMB: number;     // Largest file a script may write (RLIMIT_FSIZE) and output stream it may print
+  maxOutputMB: number;       // Output kept in memory per stream, as its head and tail
+  cgroupRoot?: string;       // Delegated cgroup v2 directory; enables cgroup limits
+  maxConcurrent: number;     // Executions running at once; further ones wait in a queue
+  maxQueued: number;         // Executions waiting; further ones are rejected as busy
+  maxConcurrentPerOwner?: number; // Executions of one client session running at once (sessions.maxConcurrentExecutions)
+  policy: ExecutionPolicy;
+  sandbox: SandboxConfig;
+  network: NetworkPolicy;
+}
+
+/**
+ * Network egress policy for executed code
+ */
+export interface NetworkPolicy {
+  // 'none' isolates the process in its own network namespace;
+  // 'loopback-only' and 'allowlist' are enforced inside the Python runtime;
+  // 'unrestricted' opts out entirely
+  mode: 'none' | 'loopback-only' | 'allowlist' | 'unrestricted';
+  allow?: string[];          // 'host:port' pairs ('host:*' for any port) in allowlist mode
+}
+
+/**
+ * Filesystem sandbox for executed code
+ */
+export interface SandboxConfig {
+  // 'auto' uses bubblewrap when available, 'bwrap' refuses to run without it
+  mode: 'auto' | 'bwrap' | 'off';
+  readOnlyPaths: string[];   // Paths scripts and tools may read (e.g. /var/log/nginx)
+  systemPaths: string[];     // Interpreter and library paths exposed read-only
+  interpreterPaths?: string[]; // Install prefixes of interpreters elsewhere (e.g. /opt/python3.12)
+}
+
+/**
+ * Rules checked against Python code's AST before it runs
+ */
+export interface PythonPolicy {
+  allowedImports?: string[];    // If set, only these top-level modules may be imported
+  deniedImports: string[];      // Modules (or glob patterns) that may not be imported
+  deniedBuiltins: string[];     // Builtins that may not be referenced
+  deniedCalls: string[];        // Dotted names or glob patterns, e.g. 'os.system', 'subprocess.*'
+  deniedAttributes: string[];   // Attribute names used for sandbox escapes, e.g. '__subclasses__'
+}
+
+/**
+ * Code policy applied before execution
+ */
+export interface ExecutionPolicy {
+  blockedCommands: string[];    // Shell commands that may not be run (matched as command words)
+  allowedCommands?: string[];   // If set, the only shell commands that may be run
+  python: PythonPolicy;
+}
+
+export type PolicyRule =
+  | 'denied-import'
+  | 'import-not-allowed'
+  | 'denied-builtin'
+  | 'denied-call'
+  | 'denied-attribute'
+  | 'dynamic-attribute'
+  | 'blocked-command'
+  | 'command-not-allowed'
+  | 'syntax-error';
+
+/**
+ * A single policy violation found in submitted code
+ */
+export interface PolicyFinding {
+  rule: PolicyRule;
+  message: string;
+  line: number;     // 1-based
+  column: number;   // 1-based
 }
 
 export const DEFAULT_CONFIG: ExecutorConfig = {
   maxTimeout: 30000, // 30 seconds
   maxMemoryMB: 512,
-  blockedCommands: [
-    'rm -rf',
-    'dd',
-    'mkfs',
-    'format',
-    ':(){:|:&};:',  // fork bomb
-    'sudo',
-    'su',
-  ]
+  maxCpuSeconds: 30,
+  maxProcesses: 512,
+  maxOpenFiles: 256,
+  maxFileSizeMB: 100,
+  maxOutputMB: 10,
+  maxConcurrent: 4,
+  maxQueued: 32,
+  policy: {
+    blockedCommands: [
+      'rm -rf',
+      'dd',
+      'mkfs',
+      'format',
+      ':(){:|:&};:',  // fork bomb
+      'sudo',
+      'su',
+    ],
+    python: {
+      deniedImports: ['subprocess', '_posixsubprocess', 'ctypes', 'pty', '_socket'],
+      deniedBuiltins: ['exec', 'eval', 'compile', '__import__', 'breakpoint'],
+      deniedCalls: [
+        'os.system',
+        'os.popen',
+        'os.exec*',
+        'os.spawn*',
+        'os.fork*',
+        'os.kill*',
+        'os.posix_spawn*',
+        'shutil.rmtree',
+        'importlib.*',
+        'subprocess.*',
+      ],
+      deniedAttributes: ['__builtins__', '__subclasses__', '__globals__', '__code__'],
+    },
+  },
+  sandbox: {
+    mode: 'auto',
+    // Defaults to the server's working directory when empty
+    readOnlyPaths: [],
+    systemPaths: [
+      '/usr',
+      '/bin',
+      '/sbin',
+      '/lib',
+      '/lib32',
+      '/lib64',
+      '/etc/alternatives',
+      '/etc/ld.so.cache',
+      '/etc/ld.so.conf',
+      '/etc/ld.so.conf.d',
+      '/etc/localtime',
+      '/etc/ssl',
+      '/etc/ca-certificates',
+      '/etc/nsswitch.conf',
+      '/etc/passwd',
+      '/etc/group',
+      '/etc/hosts',
+      '/etc/resolv.conf',
+    ],
+  },
+  network: {
+    mode: 'none',
+  },
+};
+
+export const DEFAULT_DISCOVERY: DiscoveryOptions = {
+  topK: 5,
+  minScore: 2,
+};
+
+export const DEFAULT_SESSION_QUOTA: SessionQuota = {
+  maxConcurrentExecutions: 2,
+  maxExecutionsPerMinute: 60,
+};
+
+export const DEFAULT_KERNEL_CONFIG: KernelConfig = {
+  maxSessions: 4,
+  idleTimeoutMs: 10 * 60 * 1000,
+  maxMemoryMB: 1024,
+  maxCpuSeconds: 600,
+};
+
+export const DEFAULT_OUTPUT_CONFIG: Omit<OutputConfig, 'artifactDir'> = {
+  maxReturnBytes: 16 * 1024,
+  artifactRetentionMs: 60 * 60 * 1000,
+  maxStoreMB: 512,
+  maxFilesPerExecution: 20,
+};
+
+export const DEFAULT_JOB_CONFIG: Omit<JobConfig, 'storeDir'> = {
+  workers: 2,
+  maxTimeout: 30 * 60 * 1000,
+  maxCpuSeconds: 30 * 60,
+  retentionMs: 24 * 60 * 60 * 1000,
 };
@@ -0,0 +1,108 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ArtifactStore } from '../src/executor/artifact-store.js';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { DEFAULT_CONFIG } from '../src/types/index.js';
+
+let root: string;
+let store: ArtifactStore;
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-artifact-test-'));
+  store = new ArtifactStore({
+    maxReturnBytes: 1000,
+    artifactDir: path.join(root, 'store'),
+    artifactRetentionMs: 60000,
+    maxStoreMB: 10,
+    maxFilesPerExecution: 20,
+  });
+  await store.open();
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('long output', () => {
+  const lines = Array.from({ length: 5000 }, (_, i) => `line ${i}\n`).join('');
+
+  it('keeps head and tail in memory and the whole stream as an artifact, without killing the process', async () => {
+    const executor = new ExecutorDispatcher([], {
+      ...DEFAULT_CONFIG,
+      maxOutputMB: 0.01,
+      sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+    });
+    await executor.initialize();
+    const result = await executor.execute({
+      language: 'python',
+      code: 'import sys\nfor i in range(5000):\n    print(f"line {i}")\nprint("done", file=sys.stderr)',
+      collectOutput: dir => store.collect('me', dir),
+    });
+
+    expect(result.status).toBe('ok');
+    expect(result.stdout.startsWith('line 0\n')).toBe(true);
+    expect(result.stdout.endsWith('line 4999\n')).toBe(true);
+    expect(result.stdout).toMatch(/\[\.\.\. \d+ bytes elided \.\.\.\]/);
+    expect(Buffer.byteLength(result.stdout)).toBeLessThan(12000);
+    expect(result.stderr).toBe('done\n');
+    expect(result.outputArtifacts?.stderr).toBeUndefined();
+
+    const id = result.outputArtifacts!.stdout!;
+    expect((await store.load('me', id)).content.toString()).toBe(lines);
+
+    // The result reuses the artifact and counts what was elided from the whole stream
+    const fitted = await store.fit('me', result);
+    expect(fitted.artifacts?.stdout).toBe(id);
+    const marker = fitted.stdout.split('\n').find(line => line.startsWith('[...'))!;
+    expect(marker).toContain(id);
+    const elided = Number(/(\d+) bytes elided/.exec(marker)![1]);
+    const kept = Buffer.byteLength(fitted.stdout) - Buffer.byteLength(marker + '\n');
+    expect(elided + kept).toBe(Buffer.byteLength(lines));
+  });
+
+  it('ends a process whose stream passes the largest file size, keeping its head', async () => {
+    const executor = new ExecutorDispatcher([], {
+      ...DEFAULT_CONFIG,
+      maxOutputMB: 0.01,
+      maxFileSizeMB: 0.05,
+      sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+    });
+    await executor.initialize();
+    const result = await executor.execute({
+      language: 'python',
+      code: 'while True:\n    print("x" * 1000)',
+      collectOutput: dir => store.collect('me', dir),
+    });
+
+    expect(result.status).toBe('output_limit');
+    expect(result.stdout.startsWith('x'.repeat(1000))).toBe(true);
+    expect(result.outputArtifacts?.stdout).toBeDefined();
+  });
+
+  it('saves output that exceeds only the return budget', async () => {
+    const fitted = await store.fit('me', { stdout: lines, stderr: '' });
+    const id = fitted.artifacts!.stdout!;
+    expect((await store.load('me', id)).content.toString()).toBe(lines);
+    expect(Buffer.byteLength(fitted.stdout)).toBeLessThan(1200);
+  });
+});
+
+describe('collect', () => {
+  it('keeps nested files and skips symlinks', async () => {
+    const dir = path.join(root, 'output');
+    const secret = path.join(root, 'secret');
+    await fs.mkdir(path.join(dir, 'sub'), { recursive: true });
+    await fs.writeFile(secret, 'key');
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'sub/b.csv'), 'b');
+    await fs.symlink(secret, path.join(dir, 'link.txt'));
+    await fs.symlink(root, path.join(dir, 'sub/root'));
+
+    const files = await store.collect('me', dir);
+    expect(files.map(file => file.name)).toEqual(['a.txt', path.join('sub', 'b.csv')]);
+    expect((await store.load('me', files[1].artifactId)).content.toString()).toBe('b');
+    expect(await fs.readFile(secret, 'utf-8')).toBe('key');
+  });
+});
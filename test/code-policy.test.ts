@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { BASH_RUNTIME, NODE_RUNTIME } from '../src/executor/runtimes.js';
+import { DEFAULT_CONFIG, RuntimeDefinition } from '../src/types/index.js';
+
+async function dispatcher(runtimes: RuntimeDefinition[] = []): Promise<ExecutorDispatcher> {
+  const executor = new ExecutorDispatcher(runtimes, {
+    ...DEFAULT_CONFIG,
+    sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+  });
+  await executor.initialize();
+  return executor;
+}
+
+describe('shell command policy', () => {
+  it('does not apply command words to JavaScript', async () => {
+    const executor = await dispatcher();
+    const result = await executor.execute({
+      language: 'javascript',
+      code: [
+        "console.log(new Intl.NumberFormat('en').format(1234));",
+        'const dd = 2, su = 3, sudo = dd + su;',
+        'console.log(sudo);',
+      ].join('\n'),
+    });
+    expect(result.status).toBe('ok');
+    expect(result.stdout).toBe('1,234\n5\n');
+  });
+
+  it('still blocks commands in bash', async () => {
+    const executor = await dispatcher();
+    const result = await executor.execute({ language: 'bash', code: 'echo start\ndd if=/dev/zero of=/dev/null count=1' });
+    expect(result.status).toBe('policy_violation');
+    expect(result.findings?.map(finding => finding.rule)).toEqual(['blocked-command']);
+  });
+
+  it('checks a runtime declared with shellPolicy as a shell script', async () => {
+    const executor = await dispatcher([
+      {
+        ...BASH_RUNTIME,
+        language: 'sh',
+        command: 'sh',
+        args: ['{script}'],
+        versionProbe: ['-c', 'echo sh'],
+        shellPolicy: true,
+      },
+      { ...NODE_RUNTIME, language: 'node' },
+    ]);
+    const blocked = await executor.execute({ language: 'sh', code: 'sudo id' });
+    expect(blocked.status).toBe('policy_violation');
+    const allowed = await executor.execute({ language: 'sh', code: 'echo summary' });
+    expect(allowed.stdout).toBe('summary\n');
+    const script = await executor.execute({ language: 'node', code: 'const format = 1; console.log(format)' });
+    expect(script.status).toBe('ok');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { ExecutionQueue } from '../src/executor/execution-queue.js';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { Session } from '../src/session.js';
+import { DEFAULT_CONFIG } from '../src/types/index.js';
+
+// Let granted waiters run their continuations
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ExecutionQueue', () => {
+  it('makes an owner at its limit wait instead of failing', async () => {
+    const queue = new ExecutionQueue(4, 32, 2);
+    let running = 0;
+    let peak = 0;
+    const acquisitions = Array.from({ length: 20 }, async () => {
+      const release = await queue.acquire('session');
+      running++;
+      peak = Math.max(peak, running);
+      await settle();
+      running--;
+      release();
+    });
+    await Promise.all(acquisitions);
+    expect(peak).toBe(2);
+  });
+
+  it('starts another owner at once while a busy owner waits', async () => {
+    const queue = new ExecutionQueue(4, 32, 2);
+    await queue.acquire('busy');
+    await queue.acquire('busy');
+    let waited = false;
+    void queue.acquire('busy').then(() => { waited = true; });
+
+    const release = await queue.acquire('other');
+    await settle();
+    expect(waited).toBe(false);
+    release();
+  });
+
+  it('gives a free slot to the least busy owner', async () => {
+    const queue = new ExecutionQueue(2, 32);
+    const first = await queue.acquire('a');
+    await queue.acquire('a');
+    const order: string[] = [];
+    const waiters = ['a', 'a', 'b'].map(owner => queue.acquire(owner).then((release) => {
+      order.push(owner);
+      return release;
+    }));
+
+    first();
+    await settle();
+    expect(order).toEqual(['b']);
+    (await waiters[2])();
+    await settle();
+    expect(order).toEqual(['b', 'a']);
+    (await waiters[0])();
+    await waiters[1];
+  });
+
+  it('rejects calls beyond the queue length as busy', async () => {
+    const queue = new ExecutionQueue(1, 1);
+    await queue.acquire('a');
+    void queue.acquire('a');
+    await expect(queue.acquire('b')).rejects.toThrow(/Server busy/);
+  });
+
+  it('drops a waiter whose call is cancelled', async () => {
+    const queue = new ExecutionQueue(1, 32);
+    const release = await queue.acquire('a');
+    const controller = new AbortController();
+    const cancelled = queue.acquire('a', controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(/cancelled/);
+
+    release();
+    const next = await queue.acquire('b');
+    next();
+  });
+});
+
+describe('Session executions', () => {
+  it('queues simultaneous calls beyond the session limit', async () => {
+    const executor = new ExecutorDispatcher([], {
+      ...DEFAULT_CONFIG,
+      maxConcurrentPerOwner: 2,
+      sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+    });
+    await executor.initialize();
+    const session = await Session.create('s1', 'local', {
+      maxConcurrentExecutions: 2,
+      maxExecutionsPerMinute: 60,
+    });
+    try {
+      const results = await Promise.all(Array.from({ length: 20 }, (_, i) =>
+        session.runExecution(() => executor.execute({ language: 'bash', code: `echo ${i}`, owner: session.id }))
+      ));
+      expect(results.map(result => result.status)).toEqual(Array(20).fill('ok'));
+      expect(results.map(result => result.stdout)).toEqual(Array.from({ length: 20 }, (_, i) => `${i}\n`));
+    } finally {
+      await session.close();
+    }
+  });
+
+  it('still limits executions per minute', async () => {
+    const session = await Session.create('s2', 'local', {
+      maxConcurrentExecutions: 2,
+      maxExecutionsPerMinute: 1,
+    });
+    try {
+      await session.runExecution(async () => undefined);
+      await expect(session.runExecution(async () => undefined)).rejects.toThrow(/per minute/);
+    } finally {
+      await session.close();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { DEFAULT_CONFIG, ExecutorConfig } from '../src/types/index.js';
+
+async function dispatcher(config: Partial<ExecutorConfig> = {}): Promise<ExecutorDispatcher> {
+  const executor = new ExecutorDispatcher([], {
+    ...DEFAULT_CONFIG,
+    sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+    ...config,
+  });
+  await executor.initialize();
+  return executor;
+}
+
+describe('resource limits', () => {
+  it('reports the memory limit that stopped an allocation', async () => {
+    const executor = await dispatcher({ maxMemoryMB: 128 });
+    const result = await executor.execute({ language: 'python', code: 'data = bytearray(512 * 1024 * 1024)' });
+    expect(result).toMatchObject({
+      success: false,
+      status: 'nonzero_exit',
+      limitExceeded: 'memory',
+      error: 'Resource limit: memory limit exceeded (128 MB)',
+    });
+    const small = await executor.execute({ language: 'python', code: 'print(len(bytearray(16 * 1024 * 1024)))' });
+    expect(small.stdout).toBe(`${16 * 1024 * 1024}\n`);
+  });
+
+  it('stops a file written past the file size limit', async () => {
+    const executor = await dispatcher({ maxFileSizeMB: 1 });
+    const result = await executor.execute({
+      language: 'python',
+      code: 'with open("big.bin", "wb") as f:\n    f.write(bytes(2 * 1024 * 1024))',
+    });
+    expect(result).toMatchObject({ success: false, status: 'nonzero_exit', limitExceeded: 'file_size' });
+    expect(result.error).toBe('Resource limit: file size limit exceeded (1 MB)');
+  });
+
+  it('stops code at its CPU time limit', async () => {
+    const executor = await dispatcher({ maxCpuSeconds: 1 });
+    const result = await executor.execute({ language: 'python', code: 'while True:\n    pass', timeout: 20000 });
+    expect(result).toMatchObject({ success: false, status: 'signal', limitExceeded: 'cpu' });
+    expect(result.error).toBe('Resource limit: CPU time limit exceeded (1 s)');
+  });
+});
+
+describe('cancellation', () => {
+  it('kills the process group, also children left in the background', async () => {
+    const executor = await dispatcher();
+    const controller = new AbortController();
+    let child: number | undefined;
+    const result = await executor.execute({
+      language: 'bash',
+      code: 'sleep 60 &\necho $!\nwait',
+      signal: controller.signal,
+      listener: (event) => {
+        if (event.type === 'output' && event.stream === 'stdout') {
+          child = Number(event.text.trim());
+          controller.abort();
+        }
+      },
+    });
+
+    expect(result).toMatchObject({ success: false, status: 'cancelled', error: 'Execution cancelled' });
+    expect(child).toBeGreaterThan(0);
+    expect(running(child!)).toBe(false);
+  });
+
+  it('does not start code cancelled before it ran', async () => {
+    const executor = await dispatcher();
+    const controller = new AbortController();
+    controller.abort();
+    const result = await executor.execute({ language: 'bash', code: 'echo ran', signal: controller.signal });
+    expect(result).toMatchObject({ status: 'cancelled', stdout: '' });
+  });
+});
+
+describe('execution status', () => {
+  const bash = async (code: string, config: Partial<ExecutorConfig> = {}, timeout?: number) =>
+    await (await dispatcher(config)).execute({ language: 'bash', code, timeout });
+
+  it('is ok for code that exits with 0', async () => {
+    expect(await bash('echo done')).toMatchObject({ success: true, status: 'ok', exitCode: 0, stdout: 'done\n' });
+  });
+
+  it('is nonzero_exit for code that exits with another code', async () => {
+    const result = await bash('echo failing >&2\nexit 3');
+    expect(result).toMatchObject({ success: false, status: 'nonzero_exit', exitCode: 3, stderr: 'failing\n' });
+    expect(result.limitExceeded).toBeUndefined();
+  });
+
+  it('is signal for code terminated by a signal', async () => {
+    expect(await bash('kill -TERM $$')).toMatchObject({ success: false, status: 'signal', signal: 'SIGTERM' });
+  });
+
+  it('is timeout for code still running at its timeout', async () => {
+    const result = await bash('echo started\nsleep 30', {}, 300);
+    expect(result).toMatchObject({ status: 'timeout', stdout: 'started\n', error: 'Execution timeout exceeded (300 ms)' });
+  });
+
+  it('is output_limit for code printing more than a stream may hold', async () => {
+    const result = await bash("head -c 3000000 /dev/zero | tr '\\0' a", { maxFileSizeMB: 1 });
+    expect(result).toMatchObject({ status: 'output_limit', error: 'Output limit exceeded (1 MB per stream)' });
+  });
+
+  it('is policy_violation for code the policy rejects, without running it', async () => {
+    const result = await bash('echo ran\nsudo id');
+    expect(result).toMatchObject({ success: false, status: 'policy_violation', stdout: '' });
+    expect(result.findings).toHaveLength(1);
+  });
+
+  it('is busy for a call that finds the queue full', async () => {
+    const executor = await dispatcher({ maxConcurrent: 1, maxQueued: 0 });
+    const first = executor.execute({ language: 'bash', code: 'sleep 0.5' });
+    const second = await executor.execute({ language: 'bash', code: 'echo never' });
+    expect(second).toMatchObject({ success: false, status: 'busy', stdout: '' });
+    expect((await first).status).toBe('ok');
+  });
+
+  it('is cancelled for a call cancelled while it waited for a slot', async () => {
+    const executor = await dispatcher({ maxConcurrent: 1, maxQueued: 1 });
+    const first = executor.execute({ language: 'bash', code: 'sleep 0.5' });
+    const controller = new AbortController();
+    const waiting = executor.execute({ language: 'bash', code: 'echo never', signal: controller.signal });
+    controller.abort();
+    expect(await waiting).toMatchObject({ success: false, status: 'cancelled', stdout: '' });
+    expect((await first).status).toBe('ok');
+  });
+});
+
+/**
+ * Whether a process is still running; a killed process whose parent has
+ * not reaped it yet is a zombie and counts as stopped
+ */
+function running(pid: number): boolean {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,162 @@
+import { spawnSync } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ArtifactStore } from '../src/executor/artifact-store.js';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { JobManager, JobStatusReport } from '../src/executor/job-manager.js';
+import { JobStore } from '../src/executor/job-store.js';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_JOB_CONFIG,
+  DEFAULT_OUTPUT_CONFIG,
+  JobConfig,
+  JobRecord,
+  OutputConfig,
+} from '../src/types/index.js';
+
+let root: string;
+let executor: ExecutorDispatcher;
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-job-test-'));
+  executor = new ExecutorDispatcher([], {
+    ...DEFAULT_CONFIG,
+    sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+  });
+  await executor.initialize();
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * A job manager and artifact store in their own directories under root
+ */
+async function open(name: string, jobs: Partial<JobConfig> = {}, output: Partial<OutputConfig> = {}) {
+  const artifacts = new ArtifactStore({
+    ...DEFAULT_OUTPUT_CONFIG,
+    artifactDir: path.join(root, name, 'artifacts'),
+    ...output,
+  });
+  await artifacts.open();
+  const manager = new JobManager(
+    executor,
+    { ...DEFAULT_JOB_CONFIG, storeDir: path.join(root, name, 'jobs'), ...jobs },
+    artifacts
+  );
+  await manager.open();
+  return { manager, artifacts };
+}
+
+async function finished(manager: JobManager, owner: string, id: string): Promise<JobStatusReport> {
+  for (;;) {
+    const report = await manager.status(owner, id);
+    if (report.status !== 'queued' && report.status !== 'running') {
+      return report;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('JobManager', () => {
+  it('runs a job and pages its output', async () => {
+    const { manager } = await open('submit');
+    const queued = await manager.submit('me', {
+      language: 'python',
+      code: 'import sys\nprint("a" * 150)\nprint("oops", file=sys.stderr)',
+    });
+    expect(['queued', 'running']).toContain(queued.status);
+    expect((await finished(manager, 'me', queued.job_id)).status).toBe('succeeded');
+
+    const first = await manager.result('me', queued.job_id, { limit: 100 });
+    expect(first).toMatchObject({ success: true, result: 'ok', exitCode: 0, length: 151, nextOffset: 100 });
+    expect(first.output).toBe('a'.repeat(100));
+    const rest = await manager.result('me', queued.job_id, { offset: first.nextOffset });
+    expect(rest.output).toBe('a'.repeat(50) + '\n');
+    expect(rest.nextOffset).toBeUndefined();
+    expect((await manager.result('me', queued.job_id, { stream: 'stderr' })).output).toBe('oops\n');
+  });
+
+  it('hides jobs from other clients', async () => {
+    const { manager } = await open('owners');
+    const { job_id } = await manager.submit('me', { language: 'bash', code: 'echo hi' });
+    await expect(manager.status('someone-else', job_id)).rejects.toThrow(/Unknown job/);
+    await finished(manager, 'me', job_id);
+  });
+
+  it('cancels a running job and a queued one', async () => {
+    const { manager } = await open('cancel', { workers: 1 });
+    const running = await manager.submit('me', { language: 'python', code: 'import time\ntime.sleep(30)' });
+    const queued = await manager.submit('me', { language: 'bash', code: 'echo never' });
+    expect(queued).toMatchObject({ status: 'queued', position: 1 });
+    while ((await manager.status('me', running.job_id)).status !== 'running') {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    expect((await manager.cancel('me', queued.job_id)).status).toBe('cancelled');
+    const cancelled = await manager.cancel('me', running.job_id);
+    expect(cancelled.status).toBe('cancelled');
+    expect((await manager.result('me', running.job_id)).result).toBe('cancelled');
+    expect((await manager.result('me', queued.job_id)).output).toBe('');
+  });
+
+  it('takes over jobs of a server that exited and deletes expired ones', async () => {
+    const store = new JobStore(path.join(root, 'restart', 'jobs'));
+    await store.open();
+    // A process that has exited stands for the server that left the jobs behind
+    const gone = spawnSync('true').pid;
+    const job = (status: JobRecord['status'], extra: Partial<JobRecord> = {}): JobRecord => ({
+      id: randomUUID(),
+      owner: 'me',
+      status,
+      request: { language: 'bash', code: 'echo resumed' },
+      submittedAt: Date.now() - 10000,
+      pid: gone,
+      ...extra,
+    });
+    const queued = job('queued');
+    const running = job('running', { startedAt: Date.now() - 5000 });
+    const expired = job('succeeded', { finishedAt: Date.now() - 120000 });
+    const recent = job('succeeded', { finishedAt: Date.now() - 1000 });
+    for (const record of [queued, running, expired, recent]) {
+      await store.save(record);
+    }
+    await store.saveResult(recent.id, {
+      success: true, status: 'ok', stdout: 'kept\n', stderr: '', exitCode: 0, executionTime: 1,
+    });
+
+    const { manager } = await open('restart', { retentionMs: 60000 });
+    expect((await finished(manager, 'me', queued.id)).status).toBe('succeeded');
+    expect((await manager.result('me', queued.id)).output).toBe('resumed\n');
+    expect(await manager.status('me', running.id)).toMatchObject({
+      status: 'failed',
+      error: 'Interrupted: the server running the job exited',
+    });
+    await expect(manager.status('me', expired.id)).rejects.toThrow(/Unknown job/);
+    expect((await manager.result('me', recent.id)).output).toBe('kept\n');
+  });
+});
+
+describe('job artifacts', () => {
+  it('keeps the artifacts of a job as long as the job', async () => {
+    const { manager, artifacts } = await open('retention', { retentionMs: 60000 }, { artifactRetentionMs: 200 });
+    const { job_id } = await manager.submit('me', {
+      language: 'python',
+      code: 'import os\nopen(os.path.join(os.environ["MCP_OUTPUT_DIR"], "report.csv"), "w").write("a,b\\n")',
+    });
+    expect((await finished(manager, 'me', job_id)).status).toBe('succeeded');
+    const [file] = (await manager.result('me', job_id)).files!;
+
+    // Not a job's artifact, so it expires after the artifact retention
+    const other = await artifacts.fit('me', { stdout: 'x'.repeat(DEFAULT_OUTPUT_CONFIG.maxReturnBytes + 1), stderr: '' });
+    await new Promise(resolve => setTimeout(resolve, 250));
+    await artifacts.open();
+
+    expect((await artifacts.load('me', file.artifactId)).content.toString()).toBe('a,b\n');
+    await expect(artifacts.load('me', other.artifacts!.stdout!)).rejects.toThrow(/Unknown artifact/);
+  });
+});
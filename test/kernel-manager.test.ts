@@ -0,0 +1,94 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { KernelManager } from '../src/executor/kernel-manager.js';
+import { DEFAULT_CONFIG, DEFAULT_KERNEL_CONFIG, KernelConfig } from '../src/types/index.js';
+
+let executor: ExecutorDispatcher;
+const managers: KernelManager[] = [];
+
+beforeAll(async () => {
+  executor = new ExecutorDispatcher([], {
+    ...DEFAULT_CONFIG,
+    sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+  });
+  await executor.initialize();
+});
+
+afterEach(async () => {
+  await Promise.all(managers.splice(0).map(manager => manager.closeOwnedBy('me')));
+});
+
+function manager(config: Partial<KernelConfig> = {}): KernelManager {
+  const created = new KernelManager(executor, { ...DEFAULT_KERNEL_CONFIG, ...config });
+  managers.push(created);
+  return created;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Python sessions', () => {
+  it('keeps state between calls, also after an error', async () => {
+    const kernels = manager();
+    const { id, python } = await kernels.create('me');
+    expect(python).toMatch(/^\d+\.\d+/);
+
+    await kernels.execute('me', id, 'import json\ntotal = 40');
+    const failed = await kernels.execute('me', id, 'total += 2\nraise ValueError("bad")');
+    expect(failed.status).toBe('nonzero_exit');
+    expect(failed.stderr).toContain('ValueError: bad');
+
+    const result = await kernels.execute('me', id, 'print(json.dumps({"total": total}))');
+    expect(result).toMatchObject({ status: 'ok', stdout: '{"total": 42}\n' });
+  });
+
+  it('keeps sessions private to the client that opened them', async () => {
+    const kernels = manager();
+    const { id } = await kernels.create('me');
+    await expect(kernels.execute('someone-else', id, 'print(1)')).rejects.toThrow(/Unknown Python session/);
+  });
+
+  it('interrupts a cell at its timeout and keeps the session', async () => {
+    const kernels = manager();
+    const { id } = await kernels.create('me');
+    await kernels.execute('me', id, 'kept = 1');
+
+    const result = await kernels.execute('me', id, 'while True:\n    pass', 500);
+    expect(result.status).toBe('timeout');
+    expect((await kernels.execute('me', id, 'print(kept)')).stdout).toBe('1\n');
+  });
+
+  it('closes an idle session, and each call resets the idle timer', async () => {
+    const kernels = manager({ idleTimeoutMs: 400 });
+    const { id } = await kernels.create('me');
+    for (let i = 0; i < 3; i++) {
+      await sleep(250);
+      expect((await kernels.execute('me', id, 'print("still here")')).stdout).toBe('still here\n');
+    }
+
+    await sleep(600);
+    await expect(kernels.execute('me', id, 'print(1)')).rejects.toThrow(/Unknown Python session/);
+  });
+
+  it('reports a kernel that crashed and forgets it', async () => {
+    const kernels = manager();
+    const { id } = await kernels.create('me');
+    const result = await kernels.execute('me', id, 'import os\nos._exit(3)');
+    expect(result).toMatchObject({ success: false, status: 'nonzero_exit', exitCode: 3 });
+    expect(result.error).toBe('Python session ended during execution');
+    await expect(kernels.execute('me', id, 'print(1)')).rejects.toThrow(/Unknown Python session/);
+  });
+
+  it('caps a cell\'s output at its head and tail', async () => {
+    const kernels = manager();
+    const { id } = await kernels.create('me');
+    const result = await kernels.execute('me', id, 'for i in range(300000):\n    print(f"line {i:06d}")');
+
+    expect(result.status).toBe('ok');
+    expect(result.stdout.startsWith('line 000000\n')).toBe(true);
+    expect(result.stdout.endsWith('line 299999\n')).toBe(true);
+    // 1,000,000 characters are kept, plus the marker and a line break before it
+    const elided = Number(/\[\.\.\. (\d+) characters elided \.\.\.\]/.exec(result.stdout)![1]);
+    expect(elided + 1000000).toBe(300000 * 'line 000000\n'.length);
+    expect(result.stdout.length).toBeLessThan(1000100);
+  });
+});
@@ -0,0 +1,101 @@
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { PYTHON_DIR } from '../src/paths.js';
+import { DEFAULT_CONFIG, NetworkPolicy } from '../src/types/index.js';
+
+const GUARD_DIR = path.join(PYTHON_DIR, 'guard');
+
+// Unroutable address: a connect that got past the guard fails with an OSError, not PermissionError
+const PROBES: Record<string, string> = {
+  socket: 'socket.socket().connect(("10.255.255.1", 80))',
+  socket_type: 'socket.SocketType().connect(("10.255.255.1", 80))',
+  raw_socket: '_socket.socket().connect_ex(("10.255.255.1", 80))',
+  base_class: 'socket.socket.__mro__[-2]().connect_ex(("10.255.255.1", 80))',
+  sendto: 'socket.socket(socket.AF_INET, socket.SOCK_DGRAM).sendto(b"x", ("10.255.255.1", 53))',
+  unix: 'socket.socket(socket.AF_UNIX).connect("/run/docker.sock")',
+  gethostbyname: 'socket.gethostbyname("example.com")',
+  getaddrinfo: 'socket.getaddrinfo("example.com", 443)',
+  posix_spawn: 'os.posix_spawn("/bin/true", ["true"], {})',
+  posix_spawnp: 'os.posix_spawnp("true", ["true"], {})',
+  subprocess: 'subprocess.run(["true"])',
+  system: 'os.system("true")',
+};
+
+/**
+ * Run each probe under the guard and report "denied" (PermissionError) or "allowed"
+ */
+function probe(policy: NetworkPolicy, env: Record<string, string> = {}): Record<string, string> {
+  const script = [
+    'import json, os, socket, subprocess, _socket',
+    `probes = ${JSON.stringify(PROBES)}`,
+    'results = {}',
+    'for name, code in probes.items():',
+    '    try:',
+    '        exec(code)',
+    '        results[name] = "allowed"',
+    '    except PermissionError:',
+    '        results[name] = "denied"',
+    '    except OSError:',
+    '        results[name] = "allowed"',
+    'print(json.dumps(results))',
+  ].join('\n');
+  const run = spawnSync('python3', ['-c', script], {
+    env: { ...process.env, ...env, PYTHONPATH: GUARD_DIR, MCP_NETWORK_POLICY: JSON.stringify(policy) },
+    encoding: 'utf-8',
+    timeout: 20000,
+  });
+  expect(run.stderr).toBe('');
+  return JSON.parse(run.stdout);
+}
+
+describe('network guard', () => {
+  it.each<NetworkPolicy>([
+    { mode: 'none' },
+    { mode: 'loopback-only' },
+    { mode: 'allowlist', allow: ['127.0.0.1:8080'] },
+  ])('denies every way out in mode $mode', (policy) => {
+    const results = probe(policy);
+    for (const name of Object.keys(PROBES)) {
+      expect({ name, result: results[name] }).toEqual({ name, result: 'denied' });
+    }
+  });
+
+  it('allows allowlisted and loopback destinations', () => {
+    const code = 'import socket\nsocket.socket().connect_ex(("127.0.0.1", 8080))\nprint("ok")';
+    for (const policy of [{ mode: 'loopback-only' }, { mode: 'allowlist', allow: ['127.0.0.1:8080'] }]) {
+      const run = spawnSync('python3', ['-c', code], {
+        env: { ...process.env, PYTHONPATH: GUARD_DIR, MCP_NETWORK_POLICY: JSON.stringify(policy) },
+        encoding: 'utf-8',
+      });
+      expect(run.stdout).toBe('ok\n');
+    }
+  });
+
+  it('lets processes start inside a network namespace', () => {
+    const results = probe({ mode: 'none' }, { MCP_NETWORK_NAMESPACE: '1' });
+    expect(results.socket).toBe('denied');
+    expect(results.subprocess).toBe('allowed');
+  });
+
+  it('is installed in executed code, which cannot start curl', async () => {
+    const executor = new ExecutorDispatcher([], {
+      ...DEFAULT_CONFIG,
+      sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+      network: { mode: 'allowlist', allow: ['127.0.0.1:8080'] },
+    });
+    await executor.initialize();
+    const connect = await executor.execute({
+      code: 'import socket\nsocket.SocketType().connect(("10.255.255.1", 80))',
+      language: 'python',
+    });
+    expect(connect.stderr).toContain('Network access denied by policy (mode: allowlist)');
+
+    const spawn = await executor.execute({
+      code: 'import os\nos.posix_spawnp("curl", ["curl", "http://10.255.255.1"], {})',
+      language: 'python',
+    });
+    expect(spawn.findings?.map(finding => finding.rule)).toEqual(['denied-call']);
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IntelligentToolRegistry } from '../src/intelligent-registry.js';
+import { loadPlugins } from '../src/plugins.js';
+import { ToolWatcher } from '../src/tool-watcher.js';
+
+let root: string;
+let watcher: ToolWatcher | undefined;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-plugin-test-'));
+});
+
+afterEach(async () => {
+  watcher?.close();
+  watcher = undefined;
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Write a plugin directory with a script and a manifest; fields override a valid manifest
+ */
+async function plugin(name: string, fields: Record<string, unknown> = {}): Promise<void> {
+  const dir = path.join(root, name);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'tool.py'), 'print("{}")\n');
+  await fs.writeFile(path.join(dir, 'manifest.json'), JSON.stringify({
+    name,
+    description: `The ${name} tool`,
+    inputSchema: { type: 'object', properties: { file_path: { type: 'string' } } },
+    keywords: [name],
+    category: 'test',
+    priority: 5,
+    script: 'tool.py',
+    ...fields,
+  }));
+}
+
+async function register(): Promise<IntelligentToolRegistry> {
+  const registry = new IntelligentToolRegistry();
+  (await loadPlugins([root])).tools.forEach(tool => registry.register(tool));
+  return registry;
+}
+
+describe('loadPlugins', () => {
+  it('loads the example plugin', async () => {
+    const { tools, errors } = await loadPlugins(['examples/plugins']);
+    expect(errors).toEqual([]);
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toMatchObject({
+      tool: { name: 'file_stats', outputSchema: { type: 'object' } },
+      category: 'system',
+      language: 'python',
+      timeout: 10000,
+      pathArguments: ['file_path'],
+      script: path.resolve('examples/plugins/file_stats/file_stats.py'),
+    });
+  });
+
+  it('skips and reports invalid plugins and keeps the valid ones', async () => {
+    await plugin('good', { pathArguments: ['file_path'] });
+    await plugin('paths', { pathArguments: 'file_path' });
+    await plugin('unknown_path', { pathArguments: ['log_path'] });
+    await plugin('outside', { script: '../good/tool.py' });
+    await plugin('missing', { script: 'missing.py' });
+    await plugin('same_name', { name: 'good' });
+    await fs.mkdir(path.join(root, 'broken'));
+    await fs.writeFile(path.join(root, 'broken', 'manifest.json'), '{"name": ');
+
+    const { tools, errors } = await loadPlugins([root, path.join(root, 'absent')]);
+    expect(tools.map(tool => tool.tool.name)).toEqual(['good']);
+    const problems = errors.map(error => error.replace(root + path.sep, ''));
+    expect(problems).toEqual([
+      expect.stringMatching(/^broken\/manifest\.json: invalid JSON: /),
+      'missing/manifest.json: script not found: missing.py',
+      'outside/manifest.json: "script" must be inside the plugin directory',
+      'paths/manifest.json: "pathArguments" must be an array of strings',
+      'same_name/manifest.json: duplicate tool name "good"',
+      'unknown_path/manifest.json: path argument "log_path" is not in inputSchema.properties',
+      expect.stringMatching(/^Cannot read plugin directory .*absent: /),
+    ]);
+  });
+});
+
+describe('ToolWatcher', () => {
+  it('reloads the registry once when a plugin changes, and picks up new plugins', async () => {
+    await plugin('first');
+    let registry = await register();
+    let changes = 0;
+    let changed: () => void = () => undefined;
+    watcher = new ToolWatcher([], [root], () => {
+      changes++;
+      changed();
+    });
+    await watcher.start();
+    const nextChange = () => new Promise<void>(resolve => { changed = resolve; });
+
+    let change = nextChange();
+    await plugin('first', { description: 'Edited description' });
+    await plugin('first', { description: 'Edited again' });
+    await change;
+    expect(changes).toBe(1);
+    registry = await register();
+    expect(registry.get('first')?.tool.description).toBe('Edited again');
+
+    change = nextChange();
+    await plugin('second');
+    await change;
+    registry = await register();
+    // Like the server after a reload, restart the watcher so it watches the new plugin too
+    await watcher.start();
+    expect(registry.getAllTools().map(tool => tool.name).sort()).toEqual(['first', 'second']);
+
+    change = nextChange();
+    await fs.writeFile(path.join(root, 'second', 'tool.py'), 'print("{\\"edited\\": true}")\n');
+    await change;
+    expect(changes).toBe(3);
+  });
+
+  it('watches a definitions file by name only', async () => {
+    const definitions = path.join(root, 'tools-definitions.js');
+    await fs.writeFile(definitions, 'export const TOOL_DEFINITIONS = [];\n');
+    let changes = 0;
+    watcher = new ToolWatcher([definitions], [], () => changes++);
+    await watcher.start();
+
+    await fs.writeFile(path.join(root, 'unrelated.js'), '');
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(changes).toBe(0);
+
+    // A rebuild replaces the file rather than writing it in place
+    await fs.writeFile(definitions + '.tmp', 'export const TOOL_DEFINITIONS = [1];\n');
+    await fs.rename(definitions + '.tmp', definitions);
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(changes).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import { ProgressNotifier } from '../src/progress-notifier.js';
+
+function record() {
+  const sent: { progress: number; message?: string }[] = [];
+  const notifier = new ProgressNotifier('token', async (notification: ServerNotification) => {
+    const { progress, message } = notification.params as { progress: number; message?: string };
+    sent.push({ progress, message });
+  });
+  return { notifier, sent };
+}
+
+function increasing(values: number[]): boolean {
+  return values.every((value, i) => i === 0 || value > values[i - 1]);
+}
+
+describe('ProgressNotifier', () => {
+  it('sends increasing values for output without progress reports', async () => {
+    const { notifier, sent } = record();
+    for (let i = 0; i < 5; i++) {
+      notifier.listener({ type: 'output', stream: 'stdout', text: `line ${i}\n` });
+      notifier.listener({ type: 'output', stream: 'stderr', text: `warning ${i}\n` });
+      await notifier.close();
+    }
+
+    expect(sent).toHaveLength(10);
+    expect(increasing(sent.map(n => n.progress))).toBe(true);
+    expect(sent.every(n => n.progress < 1)).toBe(true);
+    expect(sent[1].message).toBe('[stderr] warning 0\n');
+  });
+
+  it('jumps to reported percentages and repeats of one percentage still increase', async () => {
+    const { notifier, sent } = record();
+    notifier.listener({ type: 'output', stream: 'stdout', text: 'a\n' });
+    notifier.listener({ type: 'progress', percent: 40, message: 'Parsing' });
+    notifier.listener({ type: 'progress', percent: 40, message: 'Still parsing' });
+    notifier.listener({ type: 'progress', message: 'No percentage' });
+    notifier.listener({ type: 'progress', percent: 10, message: 'Lower' });
+    notifier.listener({ type: 'progress', percent: 100, message: 'Done' });
+    await notifier.close();
+
+    expect(sent.map(n => n.message)).toEqual(['a\n', 'Parsing', 'Still parsing', 'No percentage', 'Lower', 'Done']);
+    expect(sent.map(n => n.progress)).toEqual([0, 40, 40.001, 40.002, 40.003, 100]);
+  });
+
+  it('holds output for the next percentage when the current one has no room left', async () => {
+    const { notifier, sent } = record();
+    for (let i = 0; i < 1001; i++) {
+      notifier.listener({ type: 'output', stream: 'stdout', text: `${i}\n` });
+      await notifier.close();
+    }
+    expect(sent).toHaveLength(1000);
+    expect(sent[999].progress).toBe(0.999);
+
+    notifier.listener({ type: 'progress', percent: 1 });
+    await notifier.close();
+    expect(sent.slice(1000)).toEqual([
+      { progress: 1, message: '1000\n' },
+      { progress: 1.001, message: undefined },
+    ]);
+    expect(increasing(sent.map(n => n.progress))).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { checkPythonPolicy } from '../src/executor/python-policy.js';
+import { DEFAULT_CONFIG, PolicyRule } from '../src/types/index.js';
+
+const policy = DEFAULT_CONFIG.policy.python;
+
+async function rules(code: string, overrides = {}): Promise<PolicyRule[]> {
+  const findings = await checkPythonPolicy(code, { ...policy, ...overrides }, 'python3');
+  return findings.map(finding => finding.rule);
+}
+
+describe('python policy', () => {
+  it('allows ordinary code', async () => {
+    const code = [
+      'import json, re, sys',
+      'from collections import Counter',
+      'print(json.dumps(Counter(re.findall(r"\\w+", "a b a"))), sys.argv, vars())',
+      'class A: pass',
+      'print(vars(A()), "summary".format())',
+    ].join('\n');
+    expect(await rules(code)).toEqual([]);
+  });
+
+  it.each([
+    ['bare builtins', 'eval("1")', 'denied-builtin'],
+    ['denied calls through aliases', 'import os as o\nrun = o.system\nrun("id")', 'denied-call'],
+    ['denied calls passed by reference', 'import os\nlist(map(os.system, ["id"]))', 'denied-call'],
+    ['getattr with a computed name', 'import os\ngetattr(os, "sys" + "tem")("id")', 'dynamic-attribute'],
+    ['denied imports', 'import subprocess', 'denied-import'],
+  ])('rejects %s', async (_, code, rule) => {
+    expect(await rules(code)).toContain(rule);
+  });
+
+  // Regressions: each of these ran os.system or eval past the checker
+  it.each([
+    ['builtins.eval', 'import builtins; builtins.eval("__import__(\'os\').system(\'id\')")', 'denied-builtin'],
+    ['builtins imported by name', 'from builtins import eval as e\ne("1")', 'denied-builtin'],
+    ['getattr on builtins', 'import builtins as b\ngetattr(b, "exec")("1")', 'denied-builtin'],
+    ['__builtins__ subscripts', '__builtins__["eval"]("1")', 'denied-builtin'],
+    ['__builtins__ attributes', '__builtins__.eval("1")', 'denied-builtin'],
+    ['vars() of a module', 'import os\nvars(os)["system"]("id")', 'dynamic-attribute'],
+    ['a module __dict__', 'import os\nos.__dict__["system"]("id")', 'dynamic-attribute'],
+    ['a module __dict__ kept for later', 'import os\nd = os.__dict__\nd["system"]("id")', 'dynamic-attribute'],
+    ['sys.modules', 'import sys\nsys.modules["os"].system("id")', 'dynamic-attribute'],
+    ['sys.modules imported by name', 'from sys import modules\nmodules["os"].system("id")', 'dynamic-attribute'],
+  ])('rejects %s', async (_, code, rule) => {
+    // Also when __builtins__ itself is not a denied attribute
+    expect(await rules(code)).toContain(rule);
+    expect(await rules(code, { deniedAttributes: [] })).toContain(rule);
+  });
+});
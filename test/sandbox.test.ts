@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  Sandbox,
+  findInterpreterPrefix,
+  resolveAllowedPath,
+  resolveAllowedPattern,
+} from '../src/executor/sandbox.js';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { DEFAULT_CONFIG } from '../src/types/index.js';
+
+let root: string;
+
+async function executable(relative: string): Promise<string> {
+  const file = path.join(root, relative);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, '#!/bin/sh\n', { mode: 0o755 });
+  return file;
+}
+
+beforeAll(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-test-')));
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('findInterpreterPrefix', () => {
+  it('mounts nothing for interpreters in the system paths', async () => {
+    const python = await executable('usr/bin/python3');
+    expect(await findInterpreterPrefix(python, [path.join(root, 'usr')])).toBeUndefined();
+  });
+
+  it('follows symlinks into the system paths', async () => {
+    const python = await executable('system/bin/python3');
+    await fs.mkdir(path.join(root, 'home/bin'), { recursive: true });
+    await fs.symlink(python, path.join(root, 'home/bin/python-link'));
+    expect(await findInterpreterPrefix(path.join(root, 'home/bin/python-link'), [path.join(root, 'system')]))
+      .toBeUndefined();
+  });
+
+  it('mounts the version of a version manager, not its root or the home directory', async () => {
+    const python = await executable('home/.pyenv/versions/3.12.1/bin/python3');
+    const node = await executable('home/.nvm/versions/node/v20.11.0/bin/node');
+    expect(await findInterpreterPrefix(python, [])).toBe(path.join(root, 'home/.pyenv/versions/3.12.1'));
+    expect(await findInterpreterPrefix(node, [])).toBe(path.join(root, 'home/.nvm/versions/node/v20.11.0'));
+  });
+
+  it('refuses an interpreter in an unrecognised directory such as ~/bin', async () => {
+    const python = await executable('home/bin/python');
+    await expect(findInterpreterPrefix(python, [])).rejects.toThrow(/interpreterPaths/);
+  });
+
+  it('mounts a configured interpreter path', async () => {
+    const python = await executable('opt/python3.12/bin/python3');
+    const prefix = path.join(root, 'opt/python3.12');
+    expect(await findInterpreterPrefix(python, [], [prefix])).toBe(prefix);
+  });
+
+  it('finds commands on PATH', async () => {
+    await executable('home/bin/mcp-test-interpreter');
+    const saved = process.env.PATH;
+    process.env.PATH = path.join(root, 'home/bin');
+    try {
+      await expect(findInterpreterPrefix('mcp-test-interpreter', [])).rejects.toThrow(/outside/);
+    } finally {
+      process.env.PATH = saved;
+    }
+  });
+});
+
+describe('Sandbox', () => {
+  it('reports why it is inactive', async () => {
+    const off = new Sandbox({ ...DEFAULT_CONFIG.sandbox, mode: 'off' });
+    await off.initialize();
+    expect(off.isActive()).toBe(false);
+    expect(off.inactiveReason()).toBe('sandbox.mode is "off"');
+
+    const unavailable = new Sandbox({ ...DEFAULT_CONFIG.sandbox, mode: 'auto' });
+    expect(unavailable.inactiveReason()).toBe('bubblewrap is unavailable');
+  });
+
+  it('says so in the results of code run without it', async () => {
+    const executor = new ExecutorDispatcher([], {
+      ...DEFAULT_CONFIG,
+      sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off' },
+    });
+    await executor.initialize();
+    const result = await executor.execute({ code: 'print("hi")', language: 'python' });
+    expect(result.stdout).toBe('hi\n');
+    expect(result.sandbox).toMatch(/^inactive \(sandbox.mode is "off"\)/);
+  });
+});
+
+describe('resolveAllowedPath', () => {
+  it('accepts paths within the allowed paths', async () => {
+    const log = await executable('logs/access.log');
+    expect(await resolveAllowedPath(log, [path.join(root, 'logs')])).toBe(log);
+  });
+
+  it('rejects paths outside them, also through symlinks and ..', async () => {
+    const secret = await executable('secret/key');
+    const logs = path.join(root, 'logs');
+    await fs.symlink(secret, path.join(logs, 'key-link'));
+    await expect(resolveAllowedPath(secret, [logs])).rejects.toThrow(/Access denied/);
+    await expect(resolveAllowedPath(path.join(logs, 'key-link'), [logs])).rejects.toThrow(/Access denied/);
+    await expect(resolveAllowedPath(path.join(logs, '../secret/key'), [logs])).rejects.toThrow(/Access denied/);
+  });
+
+  it('checks the directory of a glob and keeps .. out of the pattern', async () => {
+    const logs = path.join(root, 'logs');
+    expect(await resolveAllowedPattern(path.join(logs, 'access.log*'), [logs]))
+      .toEqual({ pattern: path.join(logs, 'access.log*'), root: logs });
+    await expect(resolveAllowedPattern(path.join(logs, '*/../../secret/key'), [logs]))
+      .rejects.toThrow(/Access denied/);
+    await expect(resolveAllowedPattern(path.join(root, 'secret/*'), [logs])).rejects.toThrow(/Access denied/);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { IntelligentToolRegistry, ToolMetadata } from '../src/intelligent-registry.js';
+import { Session } from '../src/session.js';
+import { ToolMatcher } from '../src/tool-matcher.js';
+import { TOOL_DEFINITIONS } from '../src/tools-definitions.js';
+import { DEFAULT_SESSION_QUOTA } from '../src/types/index.js';
+
+function registry(): IntelligentToolRegistry {
+  const created = new IntelligentToolRegistry();
+  TOOL_DEFINITIONS.forEach(definition => created.register(definition));
+  return created;
+}
+
+function tool(name: string, keywords: string[], description = ''): ToolMetadata {
+  return {
+    tool: { name, description, inputSchema: { type: 'object' } },
+    keywords,
+    category: 'test',
+    priority: 5,
+  };
+}
+
+describe('ToolMatcher', () => {
+  it('weighs a rare term above one most tools share', () => {
+    const matcher = new ToolMatcher([
+      tool('logs_a', ['logs', 'nginx']),
+      tool('logs_b', ['logs', 'apache']),
+      tool('logs_c', ['logs', 'syslog']),
+    ]);
+    const [best, ...rest] = matcher.match('nginx logs');
+    expect(best.metadata.tool.name).toBe('logs_a');
+    expect(rest.map(match => match.score)).toEqual([rest[0].score, rest[0].score]);
+    const contribution = (term: string) => best.matches.find(match => match.term === term)!.contribution;
+    expect(contribution('nginx')).toBeGreaterThan(contribution('logs'));
+  });
+
+  it('ranks a term in curated keywords above the same term in a description', () => {
+    const matcher = new ToolMatcher([
+      tool('described', [], 'Reads a yaml file'),
+      tool('keyword', ['yaml']),
+    ]);
+    expect(matcher.match('yaml').map(match => match.metadata.tool.name)).toEqual(['keyword', 'described']);
+  });
+
+  it('leaves out tools with no matching term', () => {
+    const matcher = new ToolMatcher([tool('a', ['docker']), tool('b', ['nginx'])]);
+    expect(matcher.match('docker').map(match => match.metadata.tool.name)).toEqual(['a']);
+  });
+});
+
+describe('tool discovery', () => {
+  it.each([
+    ['why does nginx return 502 errors', 'analyze_nginx_logs'],
+    ['container keeps restarting', 'analyze_docker_logs'],
+    ['validate my kubernetes deployment yaml', 'validate_kubernetes_yaml'],
+    ['disk space and memory usage', 'check_system_health'],
+    ['run a long analysis in the background', 'submit_job'],
+  ])('ranks "%s" to %s first', (context, expected) => {
+    expect(registry().discoverTools(context)[0].name).toBe(expected);
+  });
+
+  it('matches stems and misspellings and explains them', () => {
+    const { explanations } = registry().getStats('ngnix container restarting');
+    const nginx = explanations.find(explanation => explanation.tool === 'analyze_nginx_logs')!;
+    expect(nginx.matches).toContainEqual(expect.objectContaining({ term: 'ngnix', matched: 'nginx', fuzzy: true }));
+    const docker = explanations.find(explanation => explanation.tool === 'analyze_docker_logs')!;
+    expect(docker.matches).toContainEqual(expect.objectContaining({ term: 'restarting', matched: 'restart', fuzzy: false }));
+  });
+
+  it('lists every tool without context and the fallback for unmatched context', () => {
+    const tools = registry();
+    expect(tools.discoverTools('')).toHaveLength(TOOL_DEFINITIONS.length);
+    expect(tools.discoverTools('what is this').map(found => found.name)).toEqual(['execute_code']);
+  });
+
+  it('returns at most topK tools scoring minScore', () => {
+    const tools = new IntelligentToolRegistry({ topK: 2, minScore: 2 });
+    TOOL_DEFINITIONS.forEach(definition => tools.register(definition));
+    expect(tools.discoverTools('ngnix access log').map(found => found.name))
+      .toEqual(['analyze_nginx_logs', 'analyze_log_patterns']);
+  });
+});
+
+describe('discovery context', () => {
+  it('is kept per session', async () => {
+    const tools = registry();
+    const nginx = await Session.create('s1', 'local', DEFAULT_SESSION_QUOTA);
+    const kubernetes = await Session.create('s2', 'local', DEFAULT_SESSION_QUOTA);
+    try {
+      nginx.context.set('nginx 502 errors');
+      kubernetes.context.set('kubernetes deployment yaml');
+
+      expect(tools.discoverTools(nginx.context.toString())[0].name).toBe('analyze_nginx_logs');
+      expect(tools.discoverTools(kubernetes.context.toString())[0].name).toBe('validate_kubernetes_yaml');
+      const fresh = await Session.create('s3', 'local', DEFAULT_SESSION_QUOTA);
+      expect(fresh.context.toString()).toBe('');
+      await fresh.close();
+    } finally {
+      await nginx.close();
+      await kubernetes.close();
+    }
+  });
+
+  it('infers context from recent calls and forgets it when cleared', async () => {
+    const session = await Session.create('s4', 'local', DEFAULT_SESSION_QUOTA);
+    try {
+      session.context.recordCall('analyze_docker_logs', { log_path: '/var/lib/docker/containers/abc', code: 'x' });
+      expect(session.context.toString()).toBe('analyze docker logs /var/lib/docker/containers/abc');
+      for (let i = 0; i < 6; i++) {
+        session.context.recordCall('execute_code', { language: `python${i}` });
+      }
+      expect(session.context.toString().split('\n')).toHaveLength(5);
+      expect(session.context.toString()).not.toContain('docker');
+
+      session.context.set('');
+      expect(session.context.toString()).toBe('');
+    } finally {
+      await session.close();
+    }
+  });
+
+  it('asks for a refresh only when the advertised tools change', async () => {
+    const session = await Session.create('s5', 'local', DEFAULT_SESSION_QUOTA);
+    try {
+      expect(session.context.updateAdvertised(['a', 'b'])).toBe(false);
+      expect(session.context.updateAdvertised(['b', 'a'])).toBe(false);
+      expect(session.context.updateAdvertised(['a'])).toBe(true);
+    } finally {
+      await session.close();
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ArtifactStore } from '../src/executor/artifact-store.js';
+import { ExecutorDispatcher } from '../src/executor/index.js';
+import { JobManager } from '../src/executor/job-manager.js';
+import { KernelManager } from '../src/executor/kernel-manager.js';
+import { PYTHON_DIR, TOOLS_DIR } from '../src/paths.js';
+import { Session } from '../src/session.js';
+import { ToolHandlers } from '../src/tool-handlers.js';
+import { TOOL_DEFINITIONS } from '../src/tools-definitions.js';
+import { DEFAULT_CONFIG, DEFAULT_JOB_CONFIG } from '../src/types/index.js';
+
+let root: string;
+let handlers: ToolHandlers;
+let session: Session;
+
+const tool = (name: string) => TOOL_DEFINITIONS.find(definition => definition.tool.name === name)!;
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-tool-test-'));
+  const executor = new ExecutorDispatcher([], {
+    ...DEFAULT_CONFIG,
+    sandbox: { ...DEFAULT_CONFIG.sandbox, mode: 'off', readOnlyPaths: [path.resolve('examples'), root] },
+  });
+  await executor.initialize();
+  const artifacts = new ArtifactStore({
+    maxReturnBytes: 100000,
+    artifactDir: path.join(root, 'store'),
+    artifactRetentionMs: 60000,
+    maxStoreMB: 10,
+    maxFilesPerExecution: 20,
+  });
+  await artifacts.open();
+  const jobs = new JobManager(executor, { ...DEFAULT_JOB_CONFIG, storeDir: path.join(root, 'jobs') }, artifacts);
+  handlers = new ToolHandlers(executor, new KernelManager(executor), jobs, artifacts, tool);
+  session = await Session.create('tools', 'local', { maxConcurrentExecutions: 2, maxExecutionsPerMinute: 60 });
+});
+
+afterAll(async () => {
+  await session.close();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('analyze_docker_logs', () => {
+  const entry = (log: string, time: string) =>
+    JSON.stringify({ log: `${log}\n`, stream: 'stdout', time }) + '\n';
+
+  it('accepts the former container_name_or_id argument', async () => {
+    const response = await handlers.runScript(session, tool('analyze_docker_logs'), {
+      container_name_or_id: 'examples/docker-container',
+    });
+    expect(response.isError).toBeFalsy();
+    const result = response.structuredContent as any;
+    expect(result.container).toBe('orders-api');
+    // The start and listening lines of each start count once
+    expect(result.restart_markers.count).toBe(1);
+    expect(result.state.restart_count).toBe(1);
+  });
+
+  it('counts restarts by stop and start boundaries', async () => {
+    const log = path.join(root, 'restarts-json.log');
+    await fs.writeFile(log, [
+      entry('Server starting on port 80', '2024-05-14T10:00:00Z'),
+      entry('Listening on 0.0.0.0:80', '2024-05-14T10:00:01Z'),
+      entry('Received SIGTERM, shutting down', '2024-05-14T10:05:00Z'),
+      entry('Server starting on port 80', '2024-05-14T10:05:02Z'),
+      entry('Listening on 0.0.0.0:80', '2024-05-14T10:05:03Z'),
+      // A crash logs no stop line; the next start comes long after the last one
+      entry('Server starting on port 80', '2024-05-14T11:00:00Z'),
+      entry('Listening on 0.0.0.0:80', '2024-05-14T11:00:01Z'),
+    ].join(''));
+
+    const response = await handlers.runScript(session, tool('analyze_docker_logs'), { log_path: log });
+    const result = response.structuredContent as any;
+    expect(result.restart_markers.count).toBe(2);
+    expect(result.restart_markers.lines).toHaveLength(7);
+    expect(result.restart_markers.lines[2]).toMatchObject({ file: 'restarts-json.log', line: 3 });
+  });
+});
+
+describe('analyze_nginx_logs', () => {
+  it('records the file and line of each sample across rotations', async () => {
+    const dir = path.join(root, 'nginx');
+    await fs.mkdir(dir);
+    const log = 'garbage\n1.2.3.4 - - [10/Oct/2023:13:55:36 +0000] "GET /../../etc/passwd HTTP/1.1" 500 12 "-" "curl"\n';
+    await fs.writeFile(path.join(dir, 'access.log'), log);
+    await fs.writeFile(path.join(dir, 'access.log.1'), log);
+
+    const response = await handlers.runScript(session, tool('analyze_nginx_logs'), {
+      log_file_path: path.join(dir, 'access.log*'),
+    });
+    expect(response.isError).toBeFalsy();
+    const result = response.structuredContent as any;
+    expect(result.parsing.unparsed_samples).toEqual([
+      { file: 'access.log.1', line: 1, content: 'garbage' },
+      { file: 'access.log', line: 1, content: 'garbage' },
+    ]);
+    expect(result.security.samples.map((sample: any) => [sample.file, sample.line])).toEqual([
+      ['access.log.1', 2],
+      ['access.log', 2],
+    ]);
+    expect(result.errors_5xx.details.map((detail: any) => detail.file)).toEqual(['access.log.1', 'access.log']);
+  });
+});
+
+describe('tool arguments', () => {
+  it('reach the script as data, even when they look like code', async () => {
+    const dir = path.join(root, 'quoted');
+    await fs.mkdir(dir);
+    const file = path.join(dir, `a'''"""); print("INJECTED"); ("#.json`);
+    await fs.writeFile(file, '{"service": "orders"}');
+
+    const response = await handlers.runScript(session, tool('validate_config_file'), { file_path: file });
+    expect(response.isError).toBeFalsy();
+    expect(response.structuredContent).toMatchObject({ valid: true, file_type: 'json', keys: ['service'] });
+    expect(JSON.stringify(response.content)).not.toContain('INJECTED');
+  });
+});
+
+describe('compressed logs', () => {
+  const hasZstandard = spawnSync('python3', ['-c', 'import zstandard']).status === 0;
+
+  it.skipIf(hasZstandard)('reports .zst logs as unreadable when the network guard denies zstd', async () => {
+    const dir = path.join(root, 'zst');
+    await fs.mkdir(dir);
+    await fs.writeFile(path.join(dir, 'app.log.1.zst'), 'not read');
+    const inputs = path.join(root, 'zst-inputs.json');
+    await fs.writeFile(inputs, JSON.stringify({ log_file_path: dir }));
+
+    const run = spawnSync('python3', [path.join(TOOLS_DIR, 'analyze_log_patterns.py')], {
+      env: {
+        ...process.env,
+        PYTHONPATH: path.join(PYTHON_DIR, 'guard'),
+        MCP_NETWORK_POLICY: JSON.stringify({ mode: 'none' }),
+        MCP_INPUTS_FILE: inputs,
+      },
+      encoding: 'utf-8',
+      timeout: 20000,
+    });
+    expect(run.status).toBe(1);
+    expect(run.stderr).toContain('reading .zst logs needs the zstandard package');
+    expect(run.stderr).not.toContain('Traceback');
+  });
+});
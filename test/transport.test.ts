@@ -0,0 +1,110 @@
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { serveSessions } from '../src/transport.js';
+
+let httpServer: HttpServer;
+let url: URL;
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+beforeAll(async () => {
+  const config = {
+    http: {
+      tokens: [
+        { name: 'alice', token: 'alice-token' },
+        { name: 'bob', token: 'bob-token' },
+      ],
+    },
+  };
+  // Each session's server answers whoami with the session it was created for
+  httpServer = (await serveSessions({ mode: 'http', port: 0, host: '127.0.0.1' }, config, (session) => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'whoami', inputSchema: { type: 'object' } }],
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async () => ({
+      content: [{ type: 'text', text: `${session.client} ${session.id}` }],
+    }));
+    return server;
+  }))!;
+  url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+});
+
+afterAll(async () => {
+  httpServer.closeAllConnections();
+  await new Promise(resolve => httpServer.close(resolve));
+});
+
+async function post(headers: Record<string, string>): Promise<Response> {
+  return await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(INITIALIZE),
+  });
+}
+
+async function connect(token: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const transport = new StreamableHTTPClientTransport(url, {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+describe('HTTP transport', () => {
+  it('rejects a request without a bearer token', async () => {
+    const response = await post({});
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await response.json()).toEqual({ error: 'Missing or invalid bearer token' });
+  });
+
+  it('rejects a wrong token, also one that only differs in length', async () => {
+    for (const token of ['alice-tokem', 'alice-token-2', 'alice']) {
+      expect((await post({ Authorization: `Bearer ${token}` })).status).toBe(401);
+    }
+    expect((await post({ Authorization: 'Basic alice-token' })).status).toBe(401);
+  });
+
+  it('opens a session for the client a valid token names', async () => {
+    const { client, transport } = await connect('alice-token');
+    try {
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+      const [name, id] = (result.content as { text: string }[])[0].text.split(' ');
+      expect(name).toBe('alice');
+      expect(id).toBe(transport.sessionId);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('keeps a session to the client that opened it', async () => {
+    const { client, transport } = await connect('alice-token');
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          Authorization: 'Bearer bob-token',
+          'Mcp-Session-Id': transport.sessionId!,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      });
+      expect(response.status).toBe(403);
+    } finally {
+      await client.close();
+    }
+  });
+});